@@ -1,15 +1,14 @@
 import { useRef, useState, useEffect, useMemo, Suspense } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import {
   OrthographicCamera,
   OrbitControls,
   KeyboardControls,
-  KeyboardControlsEntry,
   useKeyboardControls,
   useGLTF,
   useAnimations,
-  Html,
-  Box
+  Box,
+  Line
 } from '@react-three/drei';
 import {
   Physics,
@@ -19,14 +18,14 @@ import {
   BallCollider,
   useRapier,
   MeshCollider,
-  CuboidCollider
+  CuboidCollider,
+  RapierCollider
 } from '@react-three/rapier';
 import {
   Group,
   Vector3,
   LoopOnce,
   LoopRepeat,
-  Mesh,
   MeshBasicMaterial,
   GreaterDepth,
   MathUtils,
@@ -34,420 +33,1044 @@ import {
   DoubleSide,
   Vector3 as ThreeVector3,
   BufferGeometry,
+  Float32BufferAttribute,
   Quaternion,
   Euler,
+  Sphere,
 } from 'three';
 import { SkeletonUtils } from 'three-stdlib';
-import { useControls } from 'leva';
-import { create } from 'zustand';
+import { button, useControls } from 'leva';
+import {
+  GuardMode,
+  createGuardBrain,
+  stepGuardBrain,
+  knockOutGuard,
+  nearestWaypointIndex,
+  Vec3Like,
+} from './ai/guardBrain';
+import { detectionFillRate } from './ai/detection';
+import { HEARING, NoiseKind, NoiseProfile, perceivedLoudness } from './ai/hearing';
+import {
+  LYING_BODY_SAMPLES,
+  PhysicsQuery,
+  castVisionColumn,
+  countWallsBetween,
+  groundHeightBelow,
+  sampleVisibility,
+} from './ai/perception';
+import { TAKEDOWN, canTakedown } from './ai/takedown';
+import { COMMUNICATION, canReceiveCallout } from './ai/communication';
+import { ALARM, nearestAlarmPanel, vigilanceLevel, vigilantProfile } from './ai/alarm';
+import {
+  WATCHER,
+  createLookSchedule,
+  createSweepState,
+  stepCameraSweep,
+  stepLookSchedule,
+  turnYaw,
+  yawTowards,
+} from './ai/watchers';
+import { PerceptionProfile, PerceptionProfileId, outerVisionCone } from './ai/perceptionProfiles';
+import { PerceptionSettings } from './ai/PerceptionSettings';
+import { registerPerceptionJob, runPerceptionFrame } from './ai/perceptionScheduler';
+import { MISSION } from './mission/mission';
+import { MissionDirector } from './mission/MissionDirector';
+import { SUN_POSITION, sampleLightExposure } from './lighting/lightExposure';
+import { Lamps } from './lighting/Lamps';
+import { coverKindsOf, releaseCoverCollider } from './cover/cover';
+import { OcclusionFader } from './camera/OcclusionFader';
+import { cameraLookTarget, cameraOffset, cameraViewYaw, createCameraRigState, stepCameraRig } from './camera/cameraRig';
+import { CoverVolumes } from './cover/CoverVolumes';
+import { clampPatrol, createPatrolState, stepPatrolWait } from './ai/patrol';
+import { MotorInput, createMotorState, settlePlayerMotor, stepPlayerMotor } from './player/playerMotor';
+import { CharacterController, canStandUp, createCharacterController, moveCharacter } from './player/characterController';
+import { CHARACTERS, CharacterId } from './characters/roster';
+import { findPath } from './nav/navMesh';
+import { bakeLevelNavMesh } from './nav/levelNav';
+import {
+  FALLBACK_LEVEL,
+  LevelDataFile,
+  PatrolWaypoint,
+  Vec3Tuple,
+  DEFAULT_CHECKPOINT_SIZE,
+  AlarmPanelSpawn,
+  ExtractionZone,
+  SecurityCameraSpawn,
+  SentrySpawn,
+  PLAYER_CHARACTER_ID,
+  loadLevelDataFile,
+  resolveLevelData,
+} from './level/levelData';
+import { extractGltfLevelData } from './level/gltfLevel';
+import { createBenchmarkLevel, readBenchmarkParam } from './level/benchmarkLevel';
+import { useGameStore } from './store';
+import { LevelEditor } from './editor/LevelEditor';
+import { applyEditorClick } from './editor/editorActions';
+import { captureSnapshot, registerCharacter, registerGuard, restoreCheckpoint, saveCheckpoint } from './save/checkpoints';
+import { clearSnapshot } from './save/saveGame';
+import { FIXED_DT, TICK_ORDER } from './sim/fixedStep';
+import { InputRecording, parseRecording, simulationMode, startRecording, startReplay, stopRecording, stopReplay } from './sim/inputRecording';
+import { SimulationDriver, useFixedUpdate } from './sim/simulationHooks';
+import { CONTROL_NAMES, Controls } from './input/controls';
+import { toKeyboardMap } from './input/bindings';
+import { readGamepad } from './input/gamepad';
+import { InputSettings } from './input/InputSettings';
+import { findInteractable } from './interaction/interactables';
+import { Interactables, useRegisterInteractable } from './interaction/Interactables';
+import { activateGadget } from './items/gadgets';
+import { Projectiles } from './items/Projectiles';
+import { PauseMenu } from './ui/PauseMenu';
+import { InventoryPanel } from './ui/InventoryPanel';
+import { InteractPrompt } from './ui/InteractPrompt';
+import { ObjectiveTracker } from './ui/ObjectiveTracker';
+import { MissionResults } from './ui/MissionResults';
+import { LightGem } from './ui/LightGem';
+import { CoverIndicator } from './ui/CoverIndicator';
+import { PerfOverlay } from './ui/PerfOverlay';
+import { Minimap } from './ui/Minimap';
+import { GuardAlertIcon } from './ui/GuardAlertIcon';
+import { GuardEdgeArrows } from './ui/GuardEdgeArrows';
+import { GUARD_COLORS, hudLayerRef, registerTrackedGuard } from './ui/guardHud';
+import { AudioSystem } from './audio/AudioSystem';
+import { AudioSettingsPanel } from './audio/AudioSettingsPanel';
+import { motorSound, playSoundAt } from './audio/audio';
 
 // V182: 플레이어 모델 자가 투과(Self-Transparency) 현상 수정
 // PlayerVisuals에서 material.transparent = false 강제 적용
 
-// 🟢 전역 상태 관리 (Zustand)
-interface GameState {
-  isAlerted: boolean;
-  setAlerted: (alerted: boolean) => void;
-  playerPosition: ThreeVector3;
-  setPlayerPosition: (pos: ThreeVector3) => void;
-  isCrouching: boolean;
-  setIsCrouching: (crouching: boolean) => void;
-  isJumping: boolean;
-  setIsJumping: (jumping: boolean) => void;
-  isInCover: boolean;
-  setInCover: (inCover: boolean) => void;
-}
-
-const useGameStore = create<GameState>((set) => ({
-  isAlerted: false,
-  setAlerted: (alerted) => set({ isAlerted: alerted }),
-  playerPosition: new ThreeVector3(0, 0, 0),
-  setPlayerPosition: (pos) => set({ playerPosition: pos }),
-  isCrouching: false,
-  setIsCrouching: (crouching) => set({ isCrouching: crouching }),
-  isJumping: false,
-  setIsJumping: (jumping) => set({ isJumping: jumping }),
-  isInCover: false,
-  setInCover: (inCover) => set({ isInCover: inCover }),
-}));
-
-enum Controls {
-  forward = 'forward',
-  backward = 'backward',
-  left = 'left',
-  right = 'right',
-  jump = 'jump',
-  toggleMode = 'toggleMode',
-  interact = 'interact',
-  inventory = 'inventory',
-  special = 'special',
-  switchChar = 'switchChar',
-  menu = 'menu',
-}
+const START_POSITION: Vec3Tuple = FALLBACK_LEVEL.playerStart;
+const LEVEL_MODEL_URL = '/models/level_test.glb';
+const LEVEL_DATA_URL = '/levels/level_test.json';
+// 🏋️ ?benchmark=N 이면 경비병 N 명 격자를 레벨 위에 덮어쓰고 성능 오버레이를 띄웁니다.
+const BENCHMARK_GUARDS = readBenchmarkParam(window.location.search);
+const BENCHMARK_LEVEL = BENCHMARK_GUARDS === null ? null : createBenchmarkLevel(BENCHMARK_GUARDS);
+const PLAYER_BODY_NAME = 'player';
 
-const keyboardMap: KeyboardControlsEntry<Controls>[] = [
-  { name: Controls.forward, keys: ['ArrowUp', 'KeyW'] },
-  { name: Controls.backward, keys: ['ArrowDown', 'KeyS'] },
-  { name: Controls.left, keys: ['ArrowLeft', 'KeyA'] },
-  { name: Controls.right, keys: ['ArrowRight', 'KeyD'] },
-  { name: Controls.jump, keys: ['KeyS'] },
-  { name: Controls.toggleMode, keys: ['KeyQ'] },
-  { name: Controls.interact, keys: ['KeyA'] },
-  { name: Controls.inventory, keys: ['KeyW'] },
-  { name: Controls.special, keys: ['KeyD'] },
-  { name: Controls.switchChar, keys: ['KeyE'] },
-  { name: Controls.menu, keys: ['Escape'] },
-];
-
-const START_POSITION: [number, number, number] = [-38.5, 1.2, 11];
-const BASE_ZOOM = 84;
-const BASE_DISTANCE = 40;
-
-const RUN_SPEED = 4.6;
-const WALK_SPEED = 2;
-const JUMP_FORCE = 7.2;
-const DASH_JUMP_FORCE = 4.8;
-const DASH_SPEED = 6.2;
-const AIR_SPEED = 2;
 const JUMP_ANIM_START_TIME = 0.6;
 
-const VIEW_DISTANCE = 10;
-const RED_ZONE_DIST = 7;
-const HEIGHT_THRESHOLD = 3;
-const FOV = 60;
-const VERTICAL_FOV = 30;
+const PATROL_SPEED = 2;
+const INVESTIGATE_SPEED = 2.8;
+const CHASE_SPEED = 4.5;
+const SEARCH_TURN_SPEED = 1.2;
+const INVESTIGATE_TURN_TIME = 0.8;
+
+// 🧭 경로 추적 설정
+const REPATH_INTERVAL = 1;      // 목표가 그대로여도 주기적으로 경로 재계산 (초)
+const REPATH_DISTANCE = 1;      // 목표가 이만큼 움직이면 즉시 재계산
+const WAYPOINT_REACH = 0.3;     // 경로 코너 도달 판정 거리
+
+const GUARD_CAPSULE = { halfHeight: 0.75, radius: 0.3, offsetY: 1 };
 
 // 🧱 충돌 그룹 설정 (Bitmask)
 const GROUP_LEVEL = 196607;
 const GROUP_RAY_VISION = 65538;
 
-// 🌿 수풀(Bush) 컴포넌트
-const Bush = ({ position }: { position: [number, number, number] }) => {
-  const { setInCover } = useGameStore();
+// 💾 체크포인트 컴포넌트: 플레이어가 들어오면 현재 상태를 저장합니다.
+const Checkpoint = ({ id, position, size = DEFAULT_CHECKPOINT_SIZE }: { id: string, position: Vec3Tuple, size?: Vec3Tuple }) => {
+  const isActive = useGameStore((state) => state.lastCheckpointId === id);
+  const [width, height, depth] = size;
 
   return (
     <group position={position}>
-      <Box args={[2, 1.5, 2]} position={[0, 0.75, 0]}>
-        <meshStandardMaterial color="#2e8b57" transparent opacity={0.6} />
+      <Box args={[width, 0.05, depth]} position={[0, 0.025, 0]}>
+        <meshStandardMaterial color={isActive ? '#44aaff' : '#335577'} transparent opacity={0.5} />
       </Box>
       <RigidBody type="fixed" colliders={false}>
         <CuboidCollider
-          args={[1, 0.75, 1]}
-          position={[0, 0.75, 0]}
+          args={[width / 2, height / 2, depth / 2]}
+          position={[0, height / 2, 0]}
           sensor
-          onIntersectionEnter={() => setInCover(true)}
-          onIntersectionExit={() => setInCover(false)}
+          onIntersectionEnter={({ other }) => {
+            if (other.rigidBodyObject?.name === PLAYER_BODY_NAME) saveCheckpoint(id);
+          }}
         />
       </RigidBody>
     </group>
   );
 };
 
+// 🎯 탈출 지점: 다른 필수 목표를 끝내고 들어오면 임무 완료
+const Extraction = ({ position, size }: ExtractionZone) => {
+  const [width, , depth] = size;
+  return (
+    <Box args={[width, 0.05, depth]} position={[position[0], position[1] + 0.025, position[2]]}>
+      <meshStandardMaterial color="#44dd88" transparent opacity={0.45} />
+    </Box>
+  );
+};
+
+// 🚨 경보 패널: 플레이어를 발견한 경비병이 달려와 전역 경보를 울립니다.
+const AlarmPanel = ({ position }: AlarmPanelSpawn) => {
+  const isRinging = useGameStore((state) => state.alarmRemaining > 0);
+
+  return (
+    <group position={position}>
+      <Box args={[0.15, 1.3, 0.15]} position={[0, 0.65, 0]}>
+        <meshStandardMaterial color="#444444" />
+      </Box>
+      <Box args={[0.5, 0.4, 0.15]} position={[0, 1.5, 0]}>
+        <meshStandardMaterial color={isRinging ? '#ff2222' : '#aa6600'} emissive={isRinging ? '#ff0000' : '#000000'} />
+      </Box>
+    </group>
+  );
+};
+
 // 동적 시야각 컴포넌트
+// 방향마다 수직 부채꼴 레이로 시선이 닿는 거리를 구하고, 링마다 지면 높이를 찾아 경사/계단을 따라 그립니다.
+// 시야 단계마다 다른 색으로, 넓은 단계부터 겹쳐 그립니다.
+const VISION_PITCH_COUNT = 5;
+const VISION_RING_COUNT = 6;
+const VISION_SURFACE_OFFSET = 0.05;
+const VISION_TIER_STYLES = [
+  { tier: 'peripheral', color: '#66aaff', opacity: 0.12 },
+  { tier: 'mid', color: '#ffff00', opacity: 0.2 },
+  { tier: 'central', color: '#ff0000', opacity: 0.35 },
+] as const;
+
 const DynamicVisionCone = ({
                              parentBody,
-                             rayCount = 60,
-                             fov = FOV,
-                             viewDistance = VIEW_DISTANCE
+                             profile,
+                             rayCount = 48,
                            }: {
   parentBody: React.RefObject<RapierRigidBody | null>,
-  rayCount?: number,
-  fov?: number,
-  viewDistance?: number
+  profile: PerceptionProfile,
+  rayCount?: number
 }) => {
   const { world, rapier } = useRapier();
 
-  const meshRedRef = useRef<Mesh>(null);
-  const geoRedRef = useRef<BufferGeometry>(null);
-
-  const meshYellowRef = useRef<Mesh>(null);
-  const geoYellowRef = useRef<BufferGeometry>(null);
+  const groupRef = useRef<Group>(null);
+  const geoRefs = useRef<(BufferGeometry | null)[]>([]);
 
-  const vertexCount = rayCount + 2;
+  // 0번은 중심, 이후 방향마다 링 개수만큼 (안쪽 → 바깥쪽)
+  const vertexCount = 1 + (rayCount + 1) * VISION_RING_COUNT;
 
-  const positionsRed = useMemo(() => new Float32Array(vertexCount * 3).fill(0), [vertexCount]);
-  const positionsYellow = useMemo(() => new Float32Array(vertexCount * 3).fill(0), [vertexCount]);
+  const positions = useMemo(
+    () => VISION_TIER_STYLES.map(() => new Float32Array(vertexCount * 3).fill(0)),
+    [vertexCount]
+  );
+  // 방향별 시선 거리와 링 지면 높이 (발 기준). LOD 로 건너뛴 방향은 양옆에서 보간해 채웁니다.
+  const reaches = useMemo(() => new Float32Array(rayCount + 1), [rayCount]);
+  const ringHeights = useMemo(() => new Float32Array((rayCount + 1) * (VISION_RING_COUNT + 1)), [rayCount]);
 
   const indices = useMemo(() => {
     const idx = [];
-    for (let i = 1; i <= rayCount; i++) idx.push(0, i, i + 1);
+    const vertex = (column: number, ring: number) => 1 + column * VISION_RING_COUNT + ring;
+    for (let i = 0; i < rayCount; i++) {
+      idx.push(0, vertex(i, 0), vertex(i + 1, 0));
+      for (let ring = 0; ring < VISION_RING_COUNT - 1; ring++) {
+        idx.push(vertex(i, ring), vertex(i, ring + 1), vertex(i + 1, ring + 1));
+        idx.push(vertex(i, ring), vertex(i + 1, ring + 1), vertex(i + 1, ring));
+      }
+    }
     return new Uint16Array(idx);
   }, [rayCount]);
 
-  useFrame(() => {
-    if (!meshRedRef.current || !world || !rapier || !parentBody.current) return;
-
-    meshRedRef.current.updateMatrixWorld();
-    if(meshYellowRef.current) meshYellowRef.current.updateMatrixWorld();
-
-    const worldPos = new ThreeVector3();
-    const worldDir = new ThreeVector3();
-    meshRedRef.current.getWorldPosition(worldPos);
-    meshRedRef.current.getWorldDirection(worldDir);
-
-    if (isNaN(worldDir.x) || isNaN(worldDir.z)) return;
-
-    const halfFov = MathUtils.degToRad(fov / 2);
-    const angleStep = MathUtils.degToRad(fov) / rayCount;
-
-    geoRedRef.current?.attributes.position.setXYZ(0, 0, 0, 0);
-    geoYellowRef.current?.attributes.position.setXYZ(0, 0, 0, 0);
-
-    const excludeBody = parentBody.current;
-
-    for (let i = 0; i <= rayCount; i++) {
-      const localAngle = -halfFov + (angleStep * i);
-      const meshRotationY = Math.atan2(worldDir.x, worldDir.z);
-      const worldRayAngle = meshRotationY + localAngle;
-
+  // 🗓️ 매 프레임 직접 쏘지 않고 지각 스케줄러에 맡깁니다. 거리 LOD 에 따라 방향을 건너뛰고 갱신 주기를 늘립니다.
+  useEffect(() => {
+    if (!world || !rapier) return;
+    const physics = { world, rapier };
+    const cone = outerVisionCone(profile);
+    const maxDrop = cone.eyeHeight + cone.viewDistance * Math.sin(MathUtils.degToRad(cone.verticalFov));
+    const halfFov = MathUtils.degToRad(cone.fov / 2);
+    const angleStep = MathUtils.degToRad(cone.fov) / rayCount;
+    const ringStride = VISION_RING_COUNT + 1;
+    // 🧹 핫 패스에서 할당하지 않도록 재사용하는 좌표
+    const eye = { x: 0, y: 0, z: 0 };
+    const probe = { x: 0, y: 0, z: 0 };
+
+    // 형태가 프로필로 정해지므로 경계 구는 한 번만 잡아 둡니다 (프레임마다 computeBoundingSphere 하지 않음).
+    const bounds = new Sphere(new ThreeVector3(), Math.hypot(cone.viewDistance, maxDrop));
+    for (const geometry of geoRefs.current) if (geometry) geometry.boundingSphere = bounds;
+
+    const castColumn = (i: number, meshRotationY: number, feetY: number, excludeBody: RapierRigidBody) => {
+      const worldRayAngle = meshRotationY - halfFov + angleStep * i;
       const dx = Math.sin(worldRayAngle);
       const dz = Math.cos(worldRayAngle);
 
-      const rayOrigin = { x: worldPos.x, y: worldPos.y + 1.7, z: worldPos.z };
-      const rayDirection = { x: dx, y: 0, z: dz };
-      const ray = new rapier.Ray(rayOrigin, rayDirection);
-
-      const hit = world.castRay(
-        ray,
-        viewDistance,
-        true,
-        undefined,
-        GROUP_RAY_VISION,
-        undefined,
-        excludeBody
-      );
-
-      let dist = viewDistance;
-      if (hit) {
-        const hitAny = hit as any;
-        const hitDist = hitAny.toi ?? hitAny.timeOfImpact;
-        if (typeof hitDist === 'number') dist = hitDist;
-        if (dist < 0.01) dist = viewDistance;
+      let reach = castVisionColumn(physics, cone, eye, dx, dz, VISION_PITCH_COUNT, GROUP_RAY_VISION, excludeBody);
+      if (isNaN(reach) || reach < 0.01) reach = 0.01;
+      reaches[i] = reach;
+
+      // 바깥 링까지 지면 높이를 구해 두고, 단계별 반경에서는 같은 높이 곡선을 보간해 씁니다.
+      const base = i * ringStride;
+      ringHeights[base] = 0;
+      probe.y = eye.y;
+      for (let ring = 1; ring <= VISION_RING_COUNT; ring++) {
+        const r = (reach * ring) / VISION_RING_COUNT;
+        probe.x = eye.x + dx * r;
+        probe.z = eye.z + dz * r;
+        const ground = groundHeightBelow(physics, probe, maxDrop, GROUP_RAY_VISION, excludeBody);
+        ringHeights[base + ring] = ground === null ? ringHeights[base + ring - 1] : ground - feetY;
       }
-      if (isNaN(dist)) dist = viewDistance;
-
-      const distRed = Math.min(dist, RED_ZONE_DIST);
-      const distYellow = dist;
-
-      let lxRed = Math.sin(localAngle) * distRed;
-      let lzRed = Math.cos(localAngle) * distRed;
-      geoRedRef.current?.attributes.position.setXYZ(i + 1, lxRed, 0, lzRed);
+    };
+
+    return registerPerceptionJob({
+      readPosition: (out) => {
+        const elements = groupRef.current?.matrixWorld.elements;
+        if (!elements) return;
+        out.x = elements[12];
+        out.y = elements[13];
+        out.z = elements[14];
+      },
+      hide: () => {
+        if (groupRef.current) groupRef.current.visible = false;
+      },
+      run: ({ columnStride }) => {
+        const group = groupRef.current;
+        const excludeBody = parentBody.current;
+        if (!group || !excludeBody) return 0;
+        group.visible = true;
+        group.updateMatrixWorld();
+
+        // 월드 위치 = 평행이동 열, 정면 = 로컬 +Z 열
+        const elements = group.matrixWorld.elements;
+        if (isNaN(elements[8]) || isNaN(elements[10])) return 0;
+        const meshRotationY = Math.atan2(elements[8], elements[10]);
+        const feetY = elements[13] - VISION_SURFACE_OFFSET;
+        eye.x = elements[12];
+        eye.y = feetY + cone.eyeHeight;
+        eye.z = elements[14];
+
+        let rays = 0;
+        let previous = 0;
+        for (let i = 0; i <= rayCount; i++) {
+          if (i % columnStride !== 0 && i !== rayCount) continue;
+          castColumn(i, meshRotationY, feetY, excludeBody);
+          rays += VISION_PITCH_COUNT + VISION_RING_COUNT;
+          for (let j = previous + 1; j < i; j++) {
+            const w = (j - previous) / (i - previous);
+            reaches[j] = MathUtils.lerp(reaches[previous], reaches[i], w);
+            for (let ring = 0; ring < ringStride; ring++) {
+              ringHeights[j * ringStride + ring] = MathUtils.lerp(ringHeights[previous * ringStride + ring], ringHeights[i * ringStride + ring], w);
+            }
+          }
+          previous = i;
+        }
 
-      let lxYellow = Math.sin(localAngle) * distYellow;
-      let lzYellow = Math.cos(localAngle) * distYellow;
-      geoYellowRef.current?.attributes.position.setXYZ(i + 1, lxYellow, 0, lzYellow);
-    }
+        for (let i = 0; i <= rayCount; i++) {
+          const localAngle = -halfFov + angleStep * i;
+          const sx = Math.sin(localAngle);
+          const sz = Math.cos(localAngle);
+          const angleDeg = Math.abs(MathUtils.radToDeg(localAngle));
+          const reach = reaches[i];
+          const base = i * ringStride;
+          for (let t = 0; t < VISION_TIER_STYLES.length; t++) {
+            const { fov, distance } = profile[VISION_TIER_STYLES[t].tier];
+            const array = positions[t];
+            // 이 단계의 시야각 밖 방향은 중심으로 접어 둡니다.
+            const tierReach = angleDeg <= fov / 2 + 1e-3 ? Math.min(reach, distance) : 0;
+            for (let ring = 0; ring < VISION_RING_COUNT; ring++) {
+              const f = (ring + 1) / VISION_RING_COUNT;
+              const u = (tierReach / reach) * f * VISION_RING_COUNT;
+              const lower = Math.min(Math.floor(u), VISION_RING_COUNT - 1);
+              const offset = (1 + i * VISION_RING_COUNT + ring) * 3;
+              array[offset] = sx * tierReach * f;
+              array[offset + 1] = MathUtils.lerp(ringHeights[base + lower], ringHeights[base + lower + 1], u - lower);
+              array[offset + 2] = sz * tierReach * f;
+            }
+          }
+        }
 
-    if(geoRedRef.current) {
-      geoRedRef.current.attributes.position.needsUpdate = true;
-      geoRedRef.current.computeBoundingSphere();
-    }
-    if(geoYellowRef.current) {
-      geoYellowRef.current.attributes.position.needsUpdate = true;
-      geoYellowRef.current.computeBoundingSphere();
-    }
-  });
+        for (const geometry of geoRefs.current) {
+          if (geometry) geometry.attributes.position.needsUpdate = true;
+        }
+        return rays;
+      },
+    });
+  }, [world, rapier, profile, rayCount, parentBody, positions, reaches, ringHeights]);
 
   return (
-    <group position={[0, 0.05, 0]}>
-      <mesh ref={meshYellowRef} position={[0, -0.01, 0]} frustumCulled={false}>
-        <bufferGeometry ref={geoYellowRef}>
-          <bufferAttribute attach="attributes-position" count={vertexCount} array={positionsYellow} itemSize={3} />
-          <bufferAttribute attach="index" count={indices.length} array={indices} itemSize={1} />
-        </bufferGeometry>
-        <meshBasicMaterial color="#ffff00" transparent opacity={0.2} side={DoubleSide} depthWrite={false} />
-      </mesh>
-      <mesh ref={meshRedRef} position={[0, 0, 0]} frustumCulled={false}>
-        <bufferGeometry ref={geoRedRef}>
-          <bufferAttribute attach="attributes-position" count={vertexCount} array={positionsRed} itemSize={3} />
-          <bufferAttribute attach="index" count={indices.length} array={indices} itemSize={1} />
-        </bufferGeometry>
-        <meshBasicMaterial color="#ff0000" transparent opacity={0.4} side={DoubleSide} depthWrite={false} />
-      </mesh>
+    <group ref={groupRef} position={[0, VISION_SURFACE_OFFSET, 0]}>
+      {VISION_TIER_STYLES.map(({ tier, color, opacity }, t) => (
+        <mesh key={tier} position={[0, 0.005 * (t - VISION_TIER_STYLES.length + 1), 0]}>
+          <bufferGeometry ref={(geometry) => { geoRefs.current[t] = geometry; }}>
+            <bufferAttribute attach="attributes-position" count={vertexCount} array={positions[t]} itemSize={3} />
+            <bufferAttribute attach="index" count={indices.length} array={indices} itemSize={1} />
+          </bufferGeometry>
+          <meshBasicMaterial color={color} transparent opacity={opacity} side={DoubleSide} depthWrite={false} />
+        </mesh>
+      ))}
     </group>
   );
 };
 
-const Enemy = ({ path }: { path: Vector3[] }) => {
+// 👁️ 조작 중인 캐릭터에 대한 초당 감지량 (0 이면 보이지 않음)
+// 캐릭터의 체격(샘플 높이)과 실루엣 보정, 자세/움직임/조명을 지각 프로필에 맞춰 적용합니다. 경비병과 고정 감시자가 함께 씁니다.
+const senseActiveCharacter = (
+  physics: PhysicsQuery,
+  profile: PerceptionProfile,
+  position: Vec3Like,
+  forward: { x: number, z: number },
+  exclude?: RapierRigidBody
+) => {
+  const { playerPosition, isCrouching, isJumping, coverKinds, isMoving, lightExposure, activeCharacter } = useGameStore.getState();
+  const { detection } = CHARACTERS[activeCharacter.character];
+  const vision = sampleVisibility(
+    physics, outerVisionCone(profile), position, forward, playerPosition,
+    isCrouching ? detection.crouchSamples : detection.standSamples, exclude
+  );
+  const { distance, angle, heightDiff } = vision;
+  const visibleFraction = vision.visibleFraction * detection.visibility;
+  return detectionFillRate(
+    { distance, angle, heightDiff, visibleFraction, isCrouching, isJumping, cover: coverKinds, isMoving, lightExposure },
+    profile
+  );
+};
+
+// 🧹 경비병 틱에서 매번 만들지 않고 돌려 쓰는 임시 객체 (경비병마다 한 벌)
+const createGuardScratch = () => ({
+  position: new ThreeVector3(),
+  forward: new ThreeVector3(),
+  target: new ThreeVector3(),
+  steer: new ThreeVector3(),
+  direction: new ThreeVector3(),
+  ear: { x: 0, y: 0, z: 0 },
+  velocity: { x: 0, y: 0, z: 0 },
+  facing: new Quaternion(),
+  euler: new Euler(),
+});
+
+const Enemy = ({ id, patrol, perception }: { id: string, patrol: PatrolWaypoint[], perception: PerceptionProfileId }) => {
+  const path = useMemo(() => patrol.map(({ position }) => new Vector3(...position)), [patrol]);
   const rigidBody = useRef<RapierRigidBody>(null);
   const groupRef = useRef<Group>(null);
   const { scene, animations } = useGLTF('/models/hero.glb');
   const clone = useMemo(() => SkeletonUtils.clone(scene), [scene]);
   const { actions } = useAnimations(animations, groupRef);
 
-  const [currentPointIndex, setCurrentPointIndex] = useState(0);
-  const [isWaiting, setIsWaiting] = useState(false);
-  const [detected, setDetected] = useState(false);
+  const [mode, setMode] = useState<GuardMode>('patrol');
+
+  // 틱 로직에서 쓰는 순찰 상태는 렌더와 무관하므로 ref 로 둡니다.
+  const patrolState = useRef(createPatrolState());
+  const brain = useRef(createGuardBrain());
+  const returnIndex = useRef(0);
+  const currentAction = useRef<string | null>(null);
+  const lastCalloutId = useRef(0);
+  const calloutCooldown = useRef(0);
+  const reportedMeter = useRef(0);
+  const navPath = useRef<Vec3Like[] | null>(null);
+  const navIndex = useRef(0);
+  const navGoal = useRef<ThreeVector3 | null>(null);
+  const repathTimer = useRef(0);
+  const lastHeardNoiseId = useRef(0);
+  const takedownSensor = useRef<RapierCollider>(null);
+  const scratch = useMemo(createGuardScratch, []);
+  const catchShape = useRef<InstanceType<PhysicsQuery['rapier']['Capsule']> | null>(null);
+
+  const setGuardMode = useGameStore((state) => state.setGuardMode);
+  const setGuardDowned = useGameStore((state) => state.setGuardDowned);
+  const rapierContext = useRapier();
+  const isUnconscious = mode === 'unconscious';
+  // 시야 표시용. 경보가 사그라드는 동안 매 틱 다시 그리지 않도록 단계로 끊습니다.
+  const vigilance = useGameStore((state) => Math.round(vigilanceLevel(state.alarmRemaining) * ALARM.vigilanceSteps) / ALARM.vigilanceSteps);
+  const baseProfile = useGameStore((state) => state.perceptionProfiles[perception]);
+  const displayProfile = useMemo(() => vigilantProfile(baseProfile, vigilance), [baseProfile, vigilance]);
+  const displayProfileRef = useRef(displayProfile);
+  displayProfileRef.current = displayProfile;
+
+  // 🗺️ 미니맵 / 가장자리 화살표가 위치와 시야를 읽어갑니다.
+  useEffect(() => registerTrackedGuard(id, {
+    readPose: (out) => {
+      if (!rigidBody.current || !groupRef.current) return false;
+      const { x, y, z } = rigidBody.current.translation();
+      const { y: qy, w: qw } = groupRef.current.quaternion;
+      out.x = x;
+      out.y = y;
+      out.z = z;
+      out.yaw = 2 * Math.atan2(qy, qw);   // y 축 회전만 있는 쿼터니언
+      return true;
+    },
+    profile: () => displayProfileRef.current,
+  }), [id]);
+
+  const guardForward = () => {
+    const forward = new ThreeVector3(0, 0, 1);
+    return groupRef.current ? forward.applyQuaternion(groupRef.current.quaternion) : forward;
+  };
+  const guardPosition = () => rigidBody.current?.translation() ?? path[0];
+
+  // 🥷 뒤에서 다가가면 interact 로 제압. 기절한 몸은 다른 경비병이 발견할 수 있습니다.
+  useRegisterInteractable(takedownSensor, {
+    id: `takedown_${id}`,
+    get position() { return guardPosition(); },
+    prompt: () => {
+      const { playerPosition } = useGameStore.getState();
+      const { perceptionProfiles } = useGameStore.getState();
+      const fov = outerVisionCone(perceptionProfiles[perception]).fov;
+      return canTakedown(brain.current.mode, guardPosition(), guardForward(), playerPosition, fov) ? 'Takedown' : null;
+    },
+    interact: () => {
+      const { reportGuardTransition, setDetectionMeter, recordMissionStat } = useGameStore.getState();
+      const { x, y, z } = guardPosition();
+      const transition = knockOutGuard(brain.current);
+      console.log(`🥷 Guard ${id} taken down`);
+      rigidBody.current?.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      reportedMeter.current = 0;
+      setDetectionMeter(id, 0);
+      setMode(transition.to);
+      reportGuardTransition(id, transition);
+      setGuardDowned(id, { position: { x, y, z }, discovered: false });
+      recordMissionStat('takedowns');
+    },
+  });
 
-  const { isAlerted, setAlerted, playerPosition, isCrouching, isJumping, isInCover } = useGameStore();
-  const { world, rapier } = useRapier();
+  // 💾 체크포인트 스냅샷 등록
+  useEffect(() => registerGuard(id, {
+    capture: () => {
+      const { x, y, z } = rigidBody.current?.translation() ?? path[0];
+      const lastKnown = brain.current.lastKnownPosition;
+      return {
+        id,
+        position: [x, y, z],
+        rotationY: groupRef.current?.rotation.y ?? 0,
+        patrolIndex: patrolState.current.index,
+        isWaiting: patrolState.current.waitRemaining !== null,
+        mode: brain.current.mode,
+        suspicion: brain.current.suspicion,
+        lastKnownPosition: lastKnown ? [lastKnown.x, lastKnown.y, lastKnown.z] : null,
+        bodyDiscovered: useGameStore.getState().downedGuards[id]?.discovered ?? false,
+      };
+    },
+    restore: (snapshot) => {
+      const [x, y, z] = snapshot.position;
+      rigidBody.current?.setTranslation({ x, y, z }, true);
+      rigidBody.current?.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      if (groupRef.current) groupRef.current.rotation.y = snapshot.rotationY;
+      const lastKnown = snapshot.lastKnownPosition;
+      Object.assign(brain.current, {
+        mode: snapshot.mode,
+        stateTime: 0,
+        lostSightTime: 0,
+        suspicion: snapshot.suspicion,
+        lastKnownPosition: lastKnown ? { x: lastKnown[0], y: lastKnown[1], z: lastKnown[2] } : null,
+      });
+      // 대기 중이던 웨이포인트는 도착 판정으로 대기를 처음부터 다시 시작합니다.
+      patrolState.current = createPatrolState(Math.min(snapshot.patrolIndex, path.length - 1));
+      navGoal.current = null;
+      repathTimer.current = 0;
+      setMode(snapshot.mode);
+      setGuardMode(id, snapshot.mode);
+      setGuardDowned(id, snapshot.mode === 'unconscious' ? { position: { x, y, z }, discovered: snapshot.bodyDiscovered } : null);
+    },
+  }), [id, path, setGuardMode, setGuardDowned]);
 
   useEffect(() => {
     clone.traverse((child: any) => {
       if (child.isMesh) {
         child.material = child.material.clone();
-        child.material.color = detected || isAlerted ? new Color('#ff0000') : new Color('#556644');
+        child.material.color = new Color(GUARD_COLORS[mode]);
         child.castShadow = true;
         child.receiveShadow = true;
       }
     });
-  }, [clone, detected, isAlerted]);
+  }, [clone, mode]);
+
+  const playAction = (name: string) => {
+    if (currentAction.current === name) return;
+    if (currentAction.current) actions[currentAction.current]?.fadeOut(0.2);
+    actions[name]?.reset().fadeIn(0.2).play();
+    currentAction.current = name;
+  };
+
+  const faceTowards = (dirX: number, dirZ: number) => {
+    if (!groupRef.current || dirX * dirX + dirZ * dirZ < 0.001) return;
+    scratch.facing.setFromEuler(scratch.euler.set(0, Math.atan2(dirX, dirZ), 0));
+    groupRef.current.quaternion.slerp(scratch.facing, 0.1);
+  };
+
+  // 내비메시가 있으면 통로를 따라 다음 코너를, 없거나 경로가 없으면 목표 지점을 그대로 돌려줍니다.
+  const nextSteerPoint = (target: ThreeVector3, from: ThreeVector3, dt: number): ThreeVector3 => {
+    const { navMesh, setNavDebugPath } = useGameStore.getState();
+    if (!navMesh) return target;
+
+    repathTimer.current -= dt;
+    const goalMoved = !navGoal.current || navGoal.current.distanceTo(target) > REPATH_DISTANCE;
+    if (goalMoved || repathTimer.current <= 0) {
+      navPath.current = findPath(navMesh, from, target);
+      navIndex.current = 1;
+      navGoal.current = (navGoal.current ?? new ThreeVector3()).copy(target);
+      repathTimer.current = REPATH_INTERVAL;
+      setNavDebugPath(id, navPath.current);
+    }
 
-  useFrame((state, delta) => {
+    const corridor = navPath.current;
+    if (!corridor || corridor.length < 2) return target;
+    while (navIndex.current < corridor.length - 1) {
+      const corner = corridor[navIndex.current];
+      if (Math.hypot(corner.x - from.x, corner.z - from.z) > WAYPOINT_REACH) break;
+      navIndex.current++;
+    }
+    const next = corridor[navIndex.current];
+    return scratch.steer.set(next.x, next.y, next.z);
+  };
+
+  useFixedUpdate(({ dt }) => {
     if (!rigidBody.current || !groupRef.current) return;
+    // 같은 틱에 플레이어가 갱신한 값을 읽도록 렌더 시점 값 대신 스토어에서 직접 가져옵니다.
+    const {
+      noiseEvents, callouts, reportGuardTransition, setDetectionMeter, emitCallout, raiseAlarm, alarmRemaining, levelData,
+      playerPosition, activeCharacter, downedGuards, perceptionProfiles,
+    } = useGameStore.getState();
+
+    clampPatrol(patrolState.current, path.length);
 
     const currentPos = rigidBody.current.translation();
-    const currentVec3 = new ThreeVector3(currentPos.x, currentPos.y, currentPos.z);
-
-    // --- 🤖 플레이어 감지 로직 ---
-    if (!isAlerted) {
-      const isFullStealth = isInCover && isCrouching;
-
-      if (!isFullStealth) {
-        const distToPlayer = currentVec3.distanceTo(playerPosition);
-
-        if (distToPlayer < VIEW_DISTANCE) {
-          const heightDiff = Math.abs(playerPosition.y - currentPos.y);
-          const isHeightDiffLarge = heightDiff > HEIGHT_THRESHOLD;
-          const isRedZone = (distToPlayer <= RED_ZONE_DIST) && !isHeightDiffLarge;
-
-          let shouldDetect = false;
-          if (isRedZone) shouldDetect = true;
-          else if (!isCrouching || isJumping) shouldDetect = true;
-
-          if (shouldDetect) {
-            const dirToPlayer = new ThreeVector3().subVectors(playerPosition, currentVec3).normalize();
-            const enemyForward = new ThreeVector3(0, 0, 1).applyQuaternion(groupRef.current.quaternion).normalize();
-            const dirToPlayerFlat = new ThreeVector3(dirToPlayer.x, 0, dirToPlayer.z).normalize();
-            const enemyForwardFlat = new ThreeVector3(enemyForward.x, 0, enemyForward.z).normalize();
-            const angleFlat = enemyForwardFlat.angleTo(dirToPlayerFlat);
-            const verticalAngle = MathUtils.radToDeg(Math.atan2(heightDiff, distToPlayer));
-
-            if (MathUtils.radToDeg(angleFlat) < FOV / 2 && verticalAngle < VERTICAL_FOV) {
-
-              const targetHeightOffset = isCrouching ? 0.9 : 1.7;
-              const rayStartPos = { x: currentPos.x, y: currentPos.y + 1.7, z: currentPos.z };
-              const playerTargetPos = new ThreeVector3(playerPosition.x, playerPosition.y + targetHeightOffset, playerPosition.z);
-
-              const rayDir = new ThreeVector3().subVectors(playerTargetPos, new ThreeVector3(rayStartPos.x, rayStartPos.y, rayStartPos.z)).normalize();
-              const ray = new rapier.Ray(rayStartPos, rayDir);
-              const exactDistToTarget = new ThreeVector3(rayStartPos.x, rayStartPos.y, rayStartPos.z).distanceTo(playerTargetPos);
-
-              // 🚀 [핵심] filterFlags: 2 (EXCLUDE_DYNAMIC)
-              const hit = world.castRay(
-                ray,
-                exactDistToTarget,
-                true,
-                2,          // 🌟 flags: 2 (EXCLUDE_DYNAMIC)
-                undefined,
-                undefined,
-                rigidBody.current
-              );
-
-              let blocked = false;
-              if (hit) {
-                const hitDist = (hit as any).toi ?? (hit as any).timeOfImpact;
-                // 벽이 플레이어보다 가까이 있으면 차단됨
-                if (hitDist < exactDistToTarget - 0.2) {
-                  blocked = true;
-                }
-              }
-
-              if (!blocked) {
-                console.log(`🚨 Player Detected! Zone: ${isRedZone ? 'RED' : 'YELLOW'}`);
-                setAlerted(true);
-                setDetected(true);
-              }
-            }
-          }
-        }
+    const currentVec3 = scratch.position.set(currentPos.x, currentPos.y, currentPos.z);
+
+    if (currentPos.y < -10) {
+      rigidBody.current.setTranslation(path[0], true);
+      rigidBody.current.setLinvel({x:0, y:0, z:0}, true);
+      return;
+    }
+    if (brain.current.mode === 'unconscious') return;
+
+    // --- 🫱 붙잡기: 추격 중인 경비병 콜라이더에 조작 중인 캐릭터가 닿으면 임무 실패 ---
+    if (brain.current.mode === 'alerted' || brain.current.mode === 'alarm') {
+      const { world, rapier } = rapierContext;
+      let caught = false;
+      catchShape.current ??= new rapier.Capsule(GUARD_CAPSULE.halfHeight, GUARD_CAPSULE.radius + MISSION.catchReach);
+      world.intersectionsWithShape(
+        { x: currentPos.x, y: currentPos.y + GUARD_CAPSULE.offsetY, z: currentPos.z },
+        { x: 0, y: 0, z: 0, w: 1 },
+        catchShape.current,
+        (collider) => {
+          caught = (collider.parent()?.userData as { characterId?: string } | undefined)?.characterId === activeCharacter.id;
+          return !caught;
+        },
+        rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+        undefined,
+        undefined,
+        rigidBody.current
+      );
+      if (caught) {
+        console.log(`🫱 Caught by ${id}`);
+        useGameStore.getState().endMission('lost', `Caught by ${id}.`);
+        return;
       }
     }
 
-    // --- 이동 로직 ---
-    let targetPos = new ThreeVector3();
-    let moveSpeed = 2;
-
-    if (isAlerted) {
-      targetPos.copy(playerPosition);
-      moveSpeed = 4.5;
-      const runAction = actions['Run'];
-      const walkAction = actions['Walk'];
-      if (runAction && !runAction.isRunning()) {
-        walkAction?.fadeOut(0.2);
-        runAction.reset().fadeIn(0.2).play();
-      }
-    } else {
-      if (path.length === 0) return;
-      targetPos.copy(path[currentPointIndex]);
-      moveSpeed = 2;
+    // --- 🤖 플레이어 감지 로직 (경보 중에는 시야가 넓어집니다) ---
+    const enemyForward = scratch.forward.set(0, 0, 1).applyQuaternion(groupRef.current.quaternion);
+    const profile = vigilantProfile(perceptionProfiles[perception], vigilanceLevel(alarmRemaining));
+    const cone = outerVisionCone(profile);
+    const detectionRate = senseActiveCharacter(rapierContext, profile, currentPos, enemyForward, rigidBody.current);
+    const canSeePlayer = detectionRate > 0;
+
+    // --- 🫣 쓰러진 동료: 아직 아무도 발견하지 않은 몸이 시야에 들어오면 경계 ---
+    let discoveredBody: Vec3Like | null = null;
+    for (const downedId in downedGuards) {
+      const downed = downedGuards[downedId];
+      if (downedId === id || downed.discovered) continue;
+      const sample = sampleVisibility(rapierContext, cone, currentPos, enemyForward, downed.position, LYING_BODY_SAMPLES, rigidBody.current);
+      if (sample.visibleFraction === 0) continue;
+      console.log(`🫣 Guard ${id} found ${downedId}`);
+      useGameStore.getState().setGuardDowned(downedId, { ...downed, discovered: true });
+      discoveredBody = downed.position;
+      break;
+    }
 
-      if (currentPos.y < -10) {
-        rigidBody.current.setTranslation(path[0], true);
-        rigidBody.current.setLinvel({x:0, y:0, z:0}, true);
-        return;
+    // --- 👂 청각: 아직 처리하지 않은 소음 중 가장 크게 들린 것 ---
+    let heardNoise: Vec3Like | null = null;
+    let loudest = HEARING.threshold;
+    const { ear } = scratch;
+    ear.x = currentPos.x;
+    ear.y = currentPos.y + 1.6;
+    ear.z = currentPos.z;
+    for (const noise of noiseEvents) {
+      if (noise.id <= lastHeardNoiseId.current) continue;
+      lastHeardNoiseId.current = noise.id;
+      // 벽 검사 전에 거리 감쇠만으로 먼저 걸러냅니다.
+      if (perceivedLoudness(noise, ear, 0) < loudest) continue;
+      const loudness = perceivedLoudness(noise, ear, countWallsBetween(rapierContext, noise.position, ear, GROUP_LEVEL));
+      if (loudness >= loudest) {
+        loudest = loudness;
+        heardNoise = noise.position;
       }
+    }
 
-      const distToTarget = new ThreeVector3(currentPos.x, 0, currentPos.z).distanceTo(new ThreeVector3(targetPos.x, 0, targetPos.z));
-
-      if (distToTarget < 0.5) {
-        if (!isWaiting) {
-          setIsWaiting(true);
-          actions['Walk']?.fadeOut(0.2);
-          actions['Idle']?.reset().fadeIn(0.2).play();
-          setTimeout(() => {
-            setCurrentPointIndex((prev) => (prev + 1) % path.length);
-            setIsWaiting(false);
-            actions['Idle']?.fadeOut(0.2);
-            actions['Walk']?.reset().fadeIn(0.2).play();
-          }, 2000);
-        }
-        rigidBody.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
-        return;
+    // --- 📣 동료 연락: 전달받은 것 중 가장 최근 목격 위치 ---
+    let callout: Vec3Like | null = null;
+    for (const received of callouts) {
+      if (received.id <= lastCalloutId.current) continue;
+      lastCalloutId.current = received.id;
+      if (received.guardId === id) continue;
+      if (canReceiveCallout(rapierContext, received, ear, GROUP_LEVEL)) callout = received.target;
+    }
+
+    // --- 🧠 상태 머신 갱신 ---
+    const alarmPanel = alarmRemaining > 0 ? null : nearestAlarmPanel(levelData.alarmPanels, currentPos);
+    const lastKnown = brain.current.lastKnownPosition;
+    let moveTarget: ThreeVector3 | null = null;
+    if (brain.current.mode === 'alarm') {
+      if (alarmPanel) moveTarget = scratch.target.set(alarmPanel.x, alarmPanel.y, alarmPanel.z);
+    } else if (brain.current.mode === 'alerted' || brain.current.mode === 'investigate') {
+      if (lastKnown) moveTarget = scratch.target.set(lastKnown.x, lastKnown.y, lastKnown.z);
+    } else if (brain.current.mode === 'return') {
+      moveTarget = path[returnIndex.current] ?? null;
+    } else if (brain.current.mode === 'patrol') {
+      moveTarget = path[patrolState.current.index] ?? null;
+    }
+
+    const distToTarget = moveTarget ? Math.hypot(moveTarget.x - currentPos.x, moveTarget.z - currentPos.z) : Infinity;
+    const arrived = distToTarget < 0.5;
+
+    const transition = stepGuardBrain(
+      brain.current,
+      { canSeePlayer, detectionRate, playerPosition, arrived, callout, alarmPanel, heardNoise, discoveredBody },
+      dt
+    );
+
+    // 직접 발견한 순간, 그리고 추격 중 계속 보고 있으면 주기적으로 목격 위치를 알립니다.
+    calloutCooldown.current -= dt;
+    const isChasing = brain.current.mode === 'alerted' || brain.current.mode === 'alarm';
+    const spotted = transition?.reason === 'detected' || transition?.reason === 'body';
+    if (isChasing && brain.current.lastKnownPosition && (spotted || (canSeePlayer && calloutCooldown.current <= 0))) {
+      emitCallout({ guardId: id, position: { ...ear }, target: { ...brain.current.lastKnownPosition }, radio: false });
+      calloutCooldown.current = COMMUNICATION.repeatInterval;
+    }
+
+    // HUD 용 감지 게이지는 의미 있는 변화가 있을 때만 스토어에 반영합니다.
+    const meter = brain.current.suspicion;
+    if (Math.abs(meter - reportedMeter.current) >= 0.01 || (meter !== reportedMeter.current && (meter === 0 || meter === 1))) {
+      reportedMeter.current = meter;
+      setDetectionMeter(id, meter);
+    }
+    if (transition) {
+      console.log(`🚨 Guard ${id}: ${transition.from} → ${transition.to} (${transition.reason})`);
+      if (transition.reason === 'detected') useGameStore.getState().recordMissionStat('timesSpotted');
+      if (transition.from === 'alarm' && arrived && alarmRemaining === 0) {
+        console.log(`🚨 Guard ${id} raised the alarm`);
+        raiseAlarm();
       }
-      if (!isWaiting) {
-        const walkAction = actions['Walk'];
-        if (walkAction && !walkAction.isRunning()) walkAction.reset().play();
+      if (transition.to === 'return') returnIndex.current = nearestWaypointIndex(path, currentPos);
+      patrolState.current.waitRemaining = null;
+      if (transition.from === 'return' && transition.to === 'patrol') patrolState.current.index = returnIndex.current;
+      // 📢 추격/경보로 막 넘어가면 외칩니다.
+      const wasChasing = transition.from === 'alerted' || transition.from === 'alarm';
+      if (!wasChasing && (transition.to === 'alerted' || transition.to === 'alarm')) {
+        playSoundAt('guardBark', { x: currentPos.x, y: currentPos.y + GUARD_CAPSULE.offsetY, z: currentPos.z });
       }
+      setMode(transition.to);
+      reportGuardTransition(id, transition);
+      // 전환 직후에는 다음 틱에서 새 목표 기준으로 이동합니다.
+      return;
+    }
+
+    // --- 이동 로직 ---
+    let moveSpeed = PATROL_SPEED;
+    const lookAt = brain.current.lastKnownPosition;
+
+    switch (brain.current.mode) {
+      case 'alerted':
+      case 'alarm':
+        moveSpeed = CHASE_SPEED;
+        playAction(arrived ? 'Idle' : 'Run');
+        break;
+      case 'investigate':
+        // 먼저 소리/목격 지점 쪽으로 돌아본 뒤 걸어갑니다.
+        if (brain.current.stateTime < INVESTIGATE_TURN_TIME) {
+          playAction('Idle');
+          if (lookAt) faceTowards(lookAt.x - currentPos.x, lookAt.z - currentPos.z);
+          moveTarget = null;
+          break;
+        }
+        moveSpeed = INVESTIGATE_SPEED;
+        playAction('Walk');
+        break;
+      case 'return':
+        playAction('Walk');
+        break;
+      case 'patrol':
+        if (path.length === 0) return;
+        if (arrived) {
+          stepPatrolWait(patrolState.current, patrol, dt);
+          moveTarget = null;
+        }
+        playAction(arrived ? 'Idle' : 'Walk');
+        break;
+      case 'suspicious':
+        playAction('Idle');
+        if (lookAt) faceTowards(lookAt.x - currentPos.x, lookAt.z - currentPos.z);
+        break;
+      case 'search':
+        playAction('Idle');
+        groupRef.current.rotation.y += Math.sin(brain.current.stateTime * 1.5) * SEARCH_TURN_SPEED * dt;
+        break;
     }
 
-    const direction = new ThreeVector3().subVectors(targetPos, currentVec3);
+    const { velocity } = scratch;
+    velocity.y = rigidBody.current.linvel().y;
+    if (!moveTarget || arrived) {
+      velocity.x = 0;
+      velocity.z = 0;
+      rigidBody.current.setLinvel(velocity, true);
+      return;
+    }
+
+    const steerPoint = nextSteerPoint(moveTarget, currentVec3, dt);
+    const direction = scratch.direction.subVectors(steerPoint, currentVec3);
     direction.y = 0;
     direction.normalize();
 
-    rigidBody.current.setLinvel({
-      x: direction.x * moveSpeed,
-      y: rigidBody.current.linvel().y,
-      z: direction.z * moveSpeed
-    }, true);
-
-    if (direction.lengthSq() > 0.001) {
-      const targetRotation = Math.atan2(direction.x, direction.z);
-      const targetQuat = new Quaternion();
-      targetQuat.setFromEuler(new Euler(0, targetRotation, 0));
-      groupRef.current.quaternion.slerp(targetQuat, 0.1);
-    }
-  });
+    velocity.x = direction.x * moveSpeed;
+    velocity.z = direction.z * moveSpeed;
+    rigidBody.current.setLinvel(velocity, true);
+
+    faceTowards(direction.x, direction.z);
+  }, TICK_ORDER.guards);
 
   return (
+    // 기절하면 키네마틱으로 바꿔 제자리에 눕힙니다 (키네마틱 강체는 시야 레이를 가리지 않음).
     <RigidBody
       ref={rigidBody}
+      type={isUnconscious ? 'kinematicPosition' : 'dynamic'}
       position={path[0]}
       enabledRotations={[false, false, false]}
       colliders={false}
       friction={0}
       gravityScale={3}
     >
-      <CapsuleCollider args={[0.75, 0.3]} position={[0, 1, 0]} />
+      {isUnconscious
+        ? <CuboidCollider args={[0.45, 0.2, 0.45]} position={[0, 0.2, 0]} />
+        : <CapsuleCollider args={[GUARD_CAPSULE.halfHeight, GUARD_CAPSULE.radius]} position={[0, GUARD_CAPSULE.offsetY, 0]} />}
+      <BallCollider ref={takedownSensor} args={[TAKEDOWN.range]} position={[0, 1, 0]} sensor density={0} />
       <group ref={groupRef}>
-        <primitive object={clone} scale={0.8} position={[0, 0, 0]} />
-        <DynamicVisionCone parentBody={rigidBody} fov={FOV} viewDistance={VIEW_DISTANCE} />
+        <group rotation={[isUnconscious ? -Math.PI / 2 : 0, 0, 0]} position={[0, isUnconscious ? 0.2 : 0, 0]}>
+          <primitive object={clone} scale={0.8} position={[0, 0, 0]} />
+        </group>
+        {!isUnconscious && <DynamicVisionCone parentBody={rigidBody} profile={displayProfile} />}
       </group>
+      <GuardAlertIcon id={id} />
     </RigidBody>
   );
 };
 
-const PlayerVisuals = ({ scene, animations, currentAnimation, isGhost = false }: any) => {
+// 📹 고정 감시자 공통 (보안 카메라 / 보초)
+// 제자리에서 고개(요)만 돌리고, 시야/감지 판정과 상태 머신은 경비병과 같은 것을 씁니다.
+// 발견하면 무전으로 목격 위치를 알려 경비병이 달려오게 하고, raisesAlarm 이면 전역 경보도 울립니다.
+interface WatcherOptions {
+  id: string;
+  perception: PerceptionProfileId;
+  initialYaw: number;
+  disabled: boolean;
+  raisesAlarm: boolean;
+  idleYaw: (yaw: number, dt: number) => number;   // 평상시 다음 요
+}
+
+const useStationaryWatcher = ({ id, perception, initialYaw, disabled, raisesAlarm, idleYaw }: WatcherOptions) => {
+  const rigidBody = useRef<RapierRigidBody>(null);
+  const headRef = useRef<Group>(null);
+  const brain = useRef(createGuardBrain());
+  const yaw = useRef(initialYaw);
+  const calloutCooldown = useRef(0);
+  const reportedMeter = useRef(0);
+  const [mode, setMode] = useState<GuardMode>('patrol');
+  const rapierContext = useRapier();
+  const forward = useMemo(() => ({ x: 0, z: 1 }), []);
+
+  const latest = useRef({ disabled, raisesAlarm, idleYaw });
+  latest.current = { disabled, raisesAlarm, idleYaw };
+
+  const vigilance = useGameStore((state) => Math.round(vigilanceLevel(state.alarmRemaining) * ALARM.vigilanceSteps) / ALARM.vigilanceSteps);
+  const baseProfile = useGameStore((state) => state.perceptionProfiles[perception]);
+  const displayProfile = useMemo(() => vigilantProfile(baseProfile, vigilance), [baseProfile, vigilance]);
+
+  const reportMeter = (meter: number) => {
+    if (Math.abs(meter - reportedMeter.current) >= 0.01 || (meter !== reportedMeter.current && (meter === 0 || meter === 1))) {
+      reportedMeter.current = meter;
+      useGameStore.getState().setDetectionMeter(id, meter);
+    }
+  };
+
+  // 💾 체크포인트: 고정 위치라 시선과 경계 상태만 되돌립니다.
+  useEffect(() => registerGuard(id, {
+    capture: () => {
+      const { x, y, z } = rigidBody.current?.translation() ?? { x: 0, y: 0, z: 0 };
+      const lastKnown = brain.current.lastKnownPosition;
+      return {
+        id,
+        position: [x, y, z],
+        rotationY: yaw.current,
+        patrolIndex: 0,
+        isWaiting: false,
+        mode: brain.current.mode,
+        suspicion: brain.current.suspicion,
+        lastKnownPosition: lastKnown ? [lastKnown.x, lastKnown.y, lastKnown.z] : null,
+        bodyDiscovered: false,
+      };
+    },
+    restore: (snapshot) => {
+      const lastKnown = snapshot.lastKnownPosition;
+      yaw.current = snapshot.rotationY;
+      Object.assign(brain.current, {
+        mode: snapshot.mode,
+        stateTime: 0,
+        lostSightTime: 0,
+        suspicion: snapshot.suspicion,
+        lastKnownPosition: lastKnown ? { x: lastKnown[0], y: lastKnown[1], z: lastKnown[2] } : null,
+      });
+      setMode(snapshot.mode);
+      useGameStore.getState().setGuardMode(id, snapshot.mode);
+    },
+  }), [id]);
+
+  useFixedUpdate(({ dt }) => {
+    if (!rigidBody.current) return;
+    const { perceptionProfiles, alarmRemaining, playerPosition, emitCallout, raiseAlarm, reportGuardTransition } = useGameStore.getState();
+
+    // 꺼진 카메라는 아무것도 보지 못하고 경계도 풀립니다.
+    if (latest.current.disabled) {
+      if (brain.current.mode !== 'patrol') {
+        brain.current = createGuardBrain();
+        setMode('patrol');
+        useGameStore.getState().setGuardMode(id, 'patrol');
+      }
+      reportMeter(0);
+      return;
+    }
+
+    const position = rigidBody.current.translation();
+    forward.x = Math.sin(yaw.current);
+    forward.z = Math.cos(yaw.current);
+    const profile = vigilantProfile(perceptionProfiles[perception], vigilanceLevel(alarmRemaining));
+    const detectionRate = senseActiveCharacter(rapierContext, profile, position, forward, rigidBody.current);
+    const canSeePlayer = detectionRate > 0;
+
+    // 움직일 수 없으므로 목표 지점에는 항상 도착한 것으로 취급합니다 (조사 → 그 자리에서 둘러보기).
+    const transition = stepGuardBrain(
+      brain.current,
+      { canSeePlayer, detectionRate, playerPosition, arrived: true, callout: null, alarmPanel: null, heardNoise: null, discoveredBody: null },
+      dt
+    );
+
+    // 경계 중에는 플레이어(마지막 목격 지점)를 따라 돌리고, 평상시에는 각자의 일정대로 돌립니다.
+    const lastKnown = brain.current.lastKnownPosition;
+    if (brain.current.mode !== 'patrol' && brain.current.mode !== 'return' && lastKnown) {
+      yaw.current = turnYaw(yaw.current, yawTowards(position, lastKnown), WATCHER.trackSpeed * Math.PI / 180 * dt);
+    } else {
+      yaw.current = latest.current.idleYaw(yaw.current, dt);
+    }
+    if (headRef.current) headRef.current.rotation.y = yaw.current;
+
+    calloutCooldown.current -= dt;
+    const spotted = transition?.reason === 'detected';
+    if (brain.current.mode === 'alerted' && lastKnown && (spotted || (canSeePlayer && calloutCooldown.current <= 0))) {
+      const eye = { x: position.x, y: position.y + profile.eyeHeight, z: position.z };
+      emitCallout({ guardId: id, position: eye, target: { ...lastKnown }, radio: true });
+      calloutCooldown.current = COMMUNICATION.repeatInterval;
+    }
+
+    reportMeter(brain.current.suspicion);
+    if (transition) {
+      console.log(`📹 Watcher ${id}: ${transition.from} → ${transition.to} (${transition.reason})`);
+      if (spotted) {
+        useGameStore.getState().recordMissionStat('timesSpotted');
+        if (latest.current.raisesAlarm && alarmRemaining === 0) {
+          console.log(`🚨 Watcher ${id} raised the alarm`);
+          raiseAlarm();
+        }
+      }
+      setMode(transition.to);
+      reportGuardTransition(id, transition);
+    }
+  }, TICK_ORDER.guards);
+
+  return { rigidBody, headRef, mode, displayProfile };
+};
+
+const CAMERA_LENS_COLORS: Partial<Record<GuardMode, string>> = {
+  suspicious: '#ffaa00',
+  investigate: '#ffaa00',
+  search: '#ffaa00',
+  alerted: '#ff0000',
+};
+
+// 📹 보안 카메라: yawMin ~ yawMax 를 왕복하며 훑습니다. 연결된 스위치로 끌 수 있습니다.
+const SecurityCamera = (camera: SecurityCameraSpawn) => {
+  const { id, position, perception } = camera;
+  const disabled = useGameStore((state) => !!state.disabledCameras[id]);
+  const sweep = useRef(createSweepState(camera));
+  // 렌더마다 회전이 초기화되지 않도록 고정 값을 씁니다 (이후 회전은 틱에서 직접 갱신).
+  const initialYaw = MathUtils.degToRad(camera.yawMin);
+  const { rigidBody, headRef, mode, displayProfile } = useStationaryWatcher({
+    id,
+    perception,
+    initialYaw,
+    disabled,
+    raisesAlarm: true,
+    idleYaw: (yaw, dt) => {
+      sweep.current.yaw = yaw;
+      stepCameraSweep(sweep.current, camera, dt);
+      return sweep.current.yaw;
+    },
+  });
+
+  return (
+    <RigidBody ref={rigidBody} type="fixed" position={position} colliders={false}>
+      <CuboidCollider args={[0.15, 0.15, 0.15]} />
+      <group ref={headRef} rotation={[0, initialYaw, 0]}>
+        <Box args={[0.3, 0.3, 0.5]} position={[0, 0, 0.1]}>
+          <meshStandardMaterial color="#333333" />
+        </Box>
+        <mesh position={[0, 0, 0.37]}>
+          <sphereGeometry args={[0.08, 12, 8]} />
+          <meshBasicMaterial color={disabled ? '#111111' : CAMERA_LENS_COLORS[mode] ?? '#44ff44'} />
+        </mesh>
+        {!disabled && <DynamicVisionCone parentBody={rigidBody} profile={displayProfile} />}
+      </group>
+    </RigidBody>
+  );
+};
+
+// 💂 보초: 제자리에서 lookAt 지점들을 정해진 시간씩 차례로 바라봅니다.
+const Sentry = ({ id, position, lookAt, perception }: SentrySpawn) => {
+  const { scene, animations } = useGLTF('/models/hero.glb');
+  const clone = useMemo(() => SkeletonUtils.clone(scene), [scene]);
+  const schedule = useRef(createLookSchedule(lookAt));
+  const [x, y, z] = position;
+  const initialYaw = lookAt.length > 0 ? yawTowards({ x, y, z }, { x: lookAt[0].target[0], y, z: lookAt[0].target[2] }) : 0;
+  const { rigidBody, headRef, mode, displayProfile } = useStationaryWatcher({
+    id,
+    perception,
+    initialYaw,
+    disabled: false,
+    raisesAlarm: false,
+    idleYaw: (yaw, dt) => {
+      const look = stepLookSchedule(schedule.current, lookAt, dt);
+      if (!look) return yaw;
+      const [tx, , tz] = look.target;
+      return turnYaw(yaw, yawTowards({ x, y, z }, { x: tx, y, z: tz }), WATCHER.sentryTurnSpeed * Math.PI / 180 * dt);
+    },
+  });
+  const { actions } = useAnimations(animations, headRef);
+
+  useEffect(() => {
+    actions['Idle']?.reset().play();
+  }, [actions]);
+
+  useEffect(() => {
+    clone.traverse((child: any) => {
+      if (child.isMesh) {
+        child.material = child.material.clone();
+        child.material.color = new Color(GUARD_COLORS[mode]);
+        child.castShadow = true;
+        child.receiveShadow = true;
+      }
+    });
+  }, [clone, mode]);
+
+  return (
+    <RigidBody ref={rigidBody} type="fixed" position={position} colliders={false}>
+      <CapsuleCollider args={[GUARD_CAPSULE.halfHeight, GUARD_CAPSULE.radius]} position={[0, GUARD_CAPSULE.offsetY, 0]} />
+      <group ref={headRef} rotation={[0, initialYaw, 0]}>
+        <primitive object={clone} scale={0.8} />
+        <DynamicVisionCone parentBody={rigidBody} profile={displayProfile} />
+      </group>
+    </RigidBody>
+  );
+};
+
+const PlayerVisuals = ({ scene, animations, currentAnimation, isGhost = false, tint = null }: any) => {
   const groupRef = useRef<Group>(null);
   const { actions } = useAnimations(animations, groupRef);
 
@@ -492,140 +1115,332 @@ const PlayerVisuals = ({ scene, animations, currentAnimation, isGhost = false }:
             child.material.depthWrite = true;   // 깊이 기록 (앞뒤 구분)
             child.material.depthTest = true;    // 깊이 테스트
             child.material.needsUpdate = true;  // 변경사항 적용
+            // 같은 모델을 쓰는 캐릭터 구분용 색 (재질을 복제해 다른 캐릭터에 번지지 않게)
+            if (tint) {
+              child.material = child.material.clone();
+              child.material.color?.multiply(new Color(tint));
+            }
           }
         }
       });
     }
-  }, [scene, isGhost]);
+  }, [scene, isGhost, tint]);
 
   return <group ref={groupRef}><primitive object={scene} /></group>;
 };
 
-const Player = ({ isLive, orbitControlsRef }: any) => {
+// 조작하지 않는 캐릭터는 입력 없이 물리(중력/정지)만 진행합니다.
+const IDLE_MOTOR_INPUT: MotorInput = {
+  forward: false, backward: false, left: false, right: false,
+  moveX: 0, moveY: 0, viewYaw: 0, jump: false, toggleCrouch: false,
+};
+
+// 이보다 빠르게 수평 이동하면 경비병 주변 시야에 걸립니다.
+const MOVING_SPEED = 0.5;
+
+// 🧑‍🤝‍🧑 플레이어 캐릭터. 로스터 정의에 따라 모델/콜라이더/이동 수치/소음 배수가 달라지고,
+// 조작 중인 캐릭터만 입력을 받아 플레이어 위치/자세, 상호작용, 인벤토리를 갱신합니다.
+const PlayableCharacter = ({ id, character, position, bodies }: PartyMember & { bodies: Map<string, RapierRigidBody> }) => {
+  const def = CHARACTERS[character];
   const rigidBody = useRef<RapierRigidBody>(null);
+  const capsule = useRef<RapierCollider>(null);
+  const controller = useRef<CharacterController | null>(null);
   const rotationGroup = useRef<Group>(null);
-  const posDebugRef = useRef<HTMLDivElement>(null);
-  const [sub, get] = useKeyboardControls<Controls>();
   const { world, rapier } = useRapier();
-  const isLiveRef = useRef(isLive);
+  const isActive = useGameStore((state) => state.activeCharacter.id === id);
+  // 경비병이 붙잡기 판정에서 강체로 캐릭터를 알아봅니다. 바뀌면 강체 옵션이 다시 적용되므로 고정합니다.
+  const userData = useMemo(() => ({ characterId: id }), [id]);
 
-  const { setPlayerPosition, setIsCrouching, isCrouching, setIsJumping } = useGameStore();
+  // 레벨 데이터(사이드카 JSON 등)가 나중에 도착하면 시작 위치로 다시 옮겨줍니다.
+  // 체크포인트에서 이어하는 중이면 그 위치를 유지합니다.
+  useEffect(() => {
+    if (!rigidBody.current || useGameStore.getState().lastCheckpointId) return;
+    rigidBody.current.setTranslation({ x: position[0], y: position[1], z: position[2] }, true);
+  }, [position]);
 
-  useEffect(() => { isLiveRef.current = isLive; }, [isLive]);
-  const { scene, animations } = useGLTF('/models/hero.glb');
+  // 🦶 경사/계단/접지 판정은 캐릭터마다 하나씩 둔 캐릭터 컨트롤러가 맡습니다.
+  useEffect(() => {
+    const created = createCharacterController({ world, rapier });
+    controller.current = created;
+    return () => {
+      controller.current = null;
+      world.removeCharacterController(created);
+    };
+  }, [world, rapier]);
+
+  // 카메라가 조작 중인 캐릭터를 찾을 수 있도록 강체를 등록합니다.
+  useEffect(() => {
+    if (!rigidBody.current) return;
+    const body = rigidBody.current;
+    bodies.set(id, body);
+    return () => {
+      if (bodies.get(id) === body) bodies.delete(id);
+    };
+  }, [bodies, id]);
+
+  // 같은 모델을 여러 캐릭터가 쓰므로 본/재질을 캐릭터마다 복제합니다.
+  const { scene, animations } = useGLTF(def.model);
+  const bodyScene = useMemo(() => SkeletonUtils.clone(scene), [scene]);
   const ghostScene = useMemo(() => SkeletonUtils.clone(scene), [scene]);
   const [animation, setAnimation] = useState("Idle");
 
+  // 틱 로직은 motor 상태를 보고, 렌더(콜라이더 크기)는 localCrouch 를 봅니다.
+  const motor = useRef(createMotorState());
   const [localCrouch, setLocalCrouch] = useState(false);
-  useEffect(() => { setIsCrouching(localCrouch); }, [localCrouch, setIsCrouching]);
-
-  const isMovingRef = useRef(false);
-  const inAir = useRef(false);
-  const { camera } = useThree();
+  const collider = localCrouch ? def.crouch : def.stand;
 
+  // 캡슐 크기가 바뀌면 콜라이더가 새로 만들어지고 예전 콜라이더의 엄폐 이탈 이벤트는 오지 않습니다.
+  // 자식 콜라이더가 먼저 다시 만들어지므로 여기서는 바뀌기 전 핸들을 기억해 두었다가 지웁니다.
   useEffect(() => {
-    const unsubscribeJump = sub((state) => state.jump, (pressed) => {
-      if (pressed && rigidBody.current && !inAir.current) {
-        const playerPos = rigidBody.current.translation();
-        const ray = new rapier.Ray({ x: playerPos.x, y: playerPos.y + 0.05, z: playerPos.z }, { x: 0, y: -1, z: 0 });
-        const hit = world.castRay(ray, 0.2, true, undefined, undefined, undefined, rigidBody.current);
-        if (hit) {
-          const isRunning = isMovingRef.current && !localCrouch;
-          const jumpVelocity = isRunning ? DASH_JUMP_FORCE : JUMP_FORCE;
-          const currentVel = rigidBody.current.linvel();
-          rigidBody.current.setLinvel({ x: currentVel.x, y: jumpVelocity, z: currentVel.z }, true);
-
-          inAir.current = true;
-          setIsJumping(true);
-
-          setTimeout(() => {
-            inAir.current = false;
-            setIsJumping(false);
-          }, 500);
-        }
-      }
-    });
-    const unsubscribeCrouch = sub((state) => state.toggleMode, (pressed) => {
-      if (pressed) setLocalCrouch((prev) => !prev);
-    });
-    return () => { unsubscribeJump(); unsubscribeCrouch(); };
-  }, [sub, world, rapier, localCrouch, setIsJumping]);
+    const handle = capsule.current?.handle;
+    return () => {
+      if (handle !== undefined) releaseCoverCollider(id, handle);
+    };
+  }, [id, collider]);
 
-  useFrame(() => {
+  const emitCharacterNoise = (kind: NoiseKind, profile: NoiseProfile) => {
     if (!rigidBody.current) return;
-    const currentPos = rigidBody.current.translation();
-    setPlayerPosition(new ThreeVector3(currentPos.x, currentPos.y, currentPos.z));
-    const { forward, backward, left, right } = get();
-    const velocity = rigidBody.current.linvel();
+    const { x, y, z } = rigidBody.current.translation();
+    const loudness = profile.loudness * def.detection.noise;
+    useGameStore.getState().emitNoise({ kind, position: { x, y: y + 0.3, z }, ...profile, loudness });
+  };
+
+  // 💾 체크포인트 스냅샷 등록
+  useEffect(() => registerCharacter(id, {
+    capture: () => {
+      const { x, y, z } = rigidBody.current?.translation() ?? { x: position[0], y: position[1], z: position[2] };
+      return { position: [x, y, z], rotationY: rotationGroup.current?.rotation.y ?? 0, isCrouching: motor.current.crouched };
+    },
+    restore: (snapshot) => {
+      const [x, y, z] = snapshot.position;
+      rigidBody.current?.setTranslation({ x, y, z }, true);
+      if (rotationGroup.current) rotationGroup.current.rotation.y = snapshot.rotationY;
+      motor.current = createMotorState(snapshot.isCrouching);
+      setLocalCrouch(snapshot.isCrouching);
+    },
+  }), [id, position]);
+
+  useFixedUpdate(({ dt, input }) => {
+    if (!rigidBody.current || !capsule.current || !controller.current) return;
+    const body = rigidBody.current;
+    const currentPos = body.translation();
+    const store = useGameStore.getState();
+    const active = store.activeCharacter.id === id;
+    if (active) store.setPlayerPosition(currentPos);
 
-    if (!isLiveRef.current && posDebugRef.current) {
-      posDebugRef.current.innerText = `X: ${currentPos.x.toFixed(1)}\nY: ${currentPos.y.toFixed(1)}\nZ: ${currentPos.z.toFixed(1)}`;
-    }
     if (currentPos.y < -10) {
-      rigidBody.current.setTranslation({ x: START_POSITION[0], y: START_POSITION[1], z: START_POSITION[2] }, true);
-      rigidBody.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
-      inAir.current = false;
+      // 조작 중이면 마지막 체크포인트로, 아니면(또는 체크포인트가 없으면) 시작 위치로 되돌립니다.
+      if (!active || !restoreCheckpoint()) {
+        body.setTranslation({ x: position[0], y: position[1], z: position[2] }, true);
+        motor.current = createMotorState(motor.current.crouched);
+      }
+      return;
     }
-    const direction = new Vector3(0, 0, 0);
-    if (forward) { direction.x -= 1; direction.z -= 1; }
-    if (backward) { direction.x += 1; direction.z += 1; }
-    if (left) { direction.x -= 1; direction.z += 1; }
-    if (right) { direction.x += 1; direction.z -= 1; }
-    const isMoving = direction.length() > 0;
-    isMovingRef.current = isMoving;
-
-    let isGrounded = false;
-    if (!inAir.current) {
-      const ray = new rapier.Ray({ x: currentPos.x, y: currentPos.y + 0.05, z: currentPos.z }, { x: 0, y: -1, z: 0 });
-      const hit = world.castRay(ray, 0.2, true, undefined, undefined, undefined, rigidBody.current);
-      isGrounded = hit !== null;
+
+    const state = motor.current;
+    const wasCrouched = state.crouched;
+    const { forward, backward, left, right } = input.held;
+    const result = stepPlayerMotor(
+      state,
+      active ? {
+        forward, backward, left, right,
+        moveX: input.moveX,
+        moveY: input.moveY,
+        viewYaw: cameraViewYaw(store.cameraHeading),
+        jump: input.pressed[Controls.jump],
+        toggleCrouch: input.pressed[Controls.toggleMode],
+      } : IDLE_MOTOR_INPUT,
+      () => canStandUp({ world, rapier }, currentPos, def.stand, body),
+      dt,
+      def.motor
+    );
+
+    // 원하는 이동량을 컨트롤러에 맞춰 깎은 뒤 다음 물리 스텝의 목표 위치로 넘깁니다.
+    const { x: vx, y: vy, z: vz } = result.velocity;
+    const move = moveCharacter({ world, rapier }, controller.current, capsule.current, { x: vx * dt, y: vy * dt, z: vz * dt }, result.snapToGround);
+    settlePlayerMotor(state, move);
+    body.setNextKinematicTranslation({ x: currentPos.x + move.movement.x, y: currentPos.y + move.movement.y, z: currentPos.z + move.movement.z });
+
+    if (state.crouched !== wasCrouched) setLocalCrouch(state.crouched);
+    for (const noise of result.noises) {
+      emitCharacterNoise(noise.kind, noise.profile);
+      // 🔊 발소리는 웅크림/걷기/달리기에 따라, 작은 캐릭터는 소음 배수만큼 작게 들립니다.
+      const sound = motorSound(noise.kind, state.animation, state.crouched);
+      if (sound) playSoundAt(sound, currentPos, def.detection.noise);
     }
-    let nextAnimation = "Idle";
-    let currentSpeed = 0;
-    if (inAir.current || !isGrounded) {
-      nextAnimation = (animation === "Dash" || (inAir.current && isMoving && !localCrouch)) ? "Dash" : "Jump";
-      currentSpeed = (nextAnimation === "Dash") ? DASH_SPEED : AIR_SPEED;
-      if(isMoving) {
-        direction.normalize();
-        if (rotationGroup.current) rotationGroup.current.rotation.y = Math.atan2(direction.x, direction.z);
-      } else currentSpeed = 0;
-    } else if (isMoving) {
-      nextAnimation = localCrouch ? "Walk" : "Run";
-      currentSpeed = localCrouch ? WALK_SPEED : RUN_SPEED;
-      direction.normalize();
-      if (rotationGroup.current) rotationGroup.current.rotation.y = Math.atan2(direction.x, direction.z);
-    } else {
-      nextAnimation = localCrouch ? "Crouch" : "Idle";
-      currentSpeed = 0;
+    if (result.facing !== null && rotationGroup.current) rotationGroup.current.rotation.y = result.facing;
+    if (animation !== state.animation) setAnimation(state.animation);
+
+    if (!active) return;
+    // 캐릭터를 바꾼 직후에도 맞도록 변화가 아니라 현재 값과 비교해 스토어에 반영합니다.
+    if (store.isCrouching !== state.crouched) store.setIsCrouching(state.crouched);
+    if (store.isJumping !== state.inAir) store.setIsJumping(state.inAir);
+    const isMoving = Math.hypot(result.velocity.x, result.velocity.z) > MOVING_SPEED;
+    if (store.isMoving !== isMoving) store.setIsMoving(isMoving);
+    const cover = coverKindsOf(id);
+    if (cover.length !== store.coverKinds.length || cover.some((kind, i) => kind !== store.coverKinds[i])) store.setCoverKinds(cover);
+
+    // --- 💡 조명 노출도 (HUD 가 매 틱 다시 그리지 않도록 0.05 단위로 끊습니다) ---
+    const exposure = Math.round(sampleLightExposure({ world, rapier }, currentPos, store.levelData.lamps, body) * 20) / 20;
+    if (exposure !== store.lightExposure) store.setLightExposure(exposure);
+
+    // --- 🖐️ 상호작용 / 🎒 인벤토리 / 🧨 가젯 ---
+    const target = findInteractable({ world, rapier }, { x: currentPos.x, y: currentPos.y + 0.8, z: currentPos.z });
+    const prompt = target?.prompt() ?? null;
+    if (prompt !== store.interactPrompt) store.setInteractPrompt(prompt);
+    if (input.pressed[Controls.interact] && target) target.interact();
+    if (input.pressed[Controls.inventory]) store.setInventoryOpen(!store.isInventoryOpen);
+    if (input.pressed[Controls.special]) {
+      const gadget = store.equippedGadget;
+      const facing = rotationGroup.current?.rotation.y ?? 0;
+      if (gadget && (store.inventory[gadget] ?? 0) > 0 && activateGadget(gadget, { position: currentPos, facing, emitNoise: store.emitNoise, throwProjectile: store.spawnProjectile })) {
+        store.removeItem(gadget);
+      }
     }
-    if (animation !== nextAnimation) setAnimation(nextAnimation);
-    rigidBody.current.setLinvel({ x: direction.x * currentSpeed, y: velocity.y, z: direction.z * currentSpeed }, true);
+  }, TICK_ORDER.player);
+
+  // 체크포인트 등 "플레이어" 판정은 조작 중인 캐릭터의 강체 이름으로 구분합니다.
+  // 키네마틱-고정 센서 쌍은 기본값으로는 이벤트가 나지 않아 KINEMATIC_FIXED 를 켭니다.
+  return (
+    <RigidBody ref={rigidBody} type="kinematicPosition" name={isActive ? PLAYER_BODY_NAME : `character_${id}`} userData={userData} position={position} enabledRotations={[false, false, false]} colliders={false}>
+      <CapsuleCollider ref={capsule} args={collider.args} position={collider.position} friction={0} activeCollisionTypes={rapier.ActiveCollisionTypes.DEFAULT | rapier.ActiveCollisionTypes.KINEMATIC_FIXED} />
+      <group ref={rotationGroup}>
+        <group scale={def.scale}><PlayerVisuals scene={bodyScene} animations={animations} currentAnimation={animation} isGhost={false} tint={def.tint} /></group>
+        <group scale={def.scale}><PlayerVisuals scene={ghostScene} animations={animations} currentAnimation={animation} isGhost={true} /></group>
+      </group>
+    </RigidBody>
+  );
+};
+
+interface PartyMember {
+  id: string;
+  character: CharacterId;
+  position: Vec3Tuple;
+}
+
+// 🧑‍🤝‍🧑 시작 위치의 주인공 + 레벨의 동료 캐릭터. switchChar 로 조작을 넘기고 카메라가 조작 중인 캐릭터를 따라갑니다.
+const Party = ({ isLive, orbitControlsRef }: any) => {
+  const levelData = useGameStore((state) => state.levelData);
+  const activeId = useGameStore((state) => state.activeCharacter.id);
+  const setActiveCharacter = useGameStore((state) => state.setActiveCharacter);
+  const { camera } = useThree();
+  const bodies = useMemo(() => new Map<string, RapierRigidBody>(), []);
+  const isLiveRef = useRef(isLive);
+  useEffect(() => { isLiveRef.current = isLive; }, [isLive]);
+
+  const members = useMemo<PartyMember[]>(() => [
+    { id: PLAYER_CHARACTER_ID, character: 'hero', position: levelData.playerStart },
+    ...levelData.party,
+  ], [levelData.playerStart, levelData.party]);
+
+  // 레벨 편집 등으로 조작 중인 캐릭터가 사라지면 주인공에게 돌아갑니다.
+  useEffect(() => {
+    if (!members.some((member) => member.id === activeId)) setActiveCharacter({ id: members[0].id, character: members[0].character });
+  }, [members, activeId, setActiveCharacter]);
+
+  useFixedUpdate(({ input }) => {
+    const store = useGameStore.getState();
+    // 🎥 시점 회전은 이동 입력의 기준이 바뀌므로 틱에서 처리합니다 (녹화 재생과 일치).
+    if (input.pressed[Controls.cameraLeft]) store.rotateCamera(-1);
+    if (input.pressed[Controls.cameraRight]) store.rotateCamera(1);
+
+    if (!input.pressed[Controls.switchChar] || members.length < 2) return;
+    const index = members.findIndex((member) => member.id === store.activeCharacter.id);
+    const next = members[(index + 1) % members.length];
+    store.setActiveCharacter({ id: next.id, character: next.character });
+    store.setInteractPrompt(null);
+    console.log(`🧑‍🤝‍🧑 Switched to ${CHARACTERS[next.character].name} (${next.id})`);
+  }, TICK_ORDER.party);
+
+  // 🎥 카메라 추적은 틱이 아니라 렌더 프레임마다. 캐릭터를 바꾸면 같은 감쇠로 새 캐릭터에게 옮겨 갑니다.
+  const rig = useRef(createCameraRigState(useGameStore.getState().cameraHeading));
+  const lookTarget = useMemo(() => new ThreeVector3(), []);
+  const offset = useMemo(() => new ThreeVector3(), []);
+  useFrame((_, delta) => {
+    const { activeCharacter, cameraHeading, isAlerted } = useGameStore.getState();
+    const body = bodies.get(activeCharacter.id);
+    if (!body) return;
+    stepCameraRig(rig.current, body.translation(), body.linvel(), { heading: cameraHeading, alerted: isAlerted }, delta);
+    cameraLookTarget(rig.current, lookTarget);
 
     if (isLiveRef.current) {
-      const dist = BASE_DISTANCE; const isoVec = 0.57735;
-      camera.position.set(currentPos.x + dist * isoVec, currentPos.y + dist * isoVec, currentPos.z + dist * isoVec);
-      camera.lookAt(currentPos.x, currentPos.y, currentPos.z);
-      camera.zoom = BASE_ZOOM; camera.updateProjectionMatrix();
+      camera.position.copy(lookTarget).add(cameraOffset(rig.current, offset));
+      camera.lookAt(lookTarget);
+      camera.zoom = rig.current.zoom; camera.updateProjectionMatrix();
     } else {
-      if (orbitControlsRef.current) { orbitControlsRef.current.target.set(currentPos.x, currentPos.y, currentPos.z); orbitControlsRef.current.update(); }
+      if (orbitControlsRef.current) { orbitControlsRef.current.target.copy(lookTarget); orbitControlsRef.current.update(); }
     }
   });
 
   return (
-    <RigidBody ref={rigidBody} position={START_POSITION} enabledRotations={[false, false, false]} colliders={false} friction={0.0} gravityScale={2.6} ccd mass={1}>
-      <BallCollider args={[0.3]} position={[0, 0.3, 0]} friction={0} />
-      <CapsuleCollider args={localCrouch ? [0.025, 0.58] : [0.3, 0.4]} position={localCrouch ? [0, 0.7, 0] : [0, 0.8, 0]} />
-      {!isLive && <Html position={[0, 2.5, 0]} center><div ref={posDebugRef} style={{fontFamily: 'monospace', fontSize: '12px', color: '#00ff00', background: 'rgba(0,0,0,0.7)', padding: '4px 8px', borderRadius: '4px', whiteSpace: 'pre', pointerEvents: 'none', userSelect: 'none'}}>Loading...</div></Html>}
-      <group ref={rotationGroup}>
-        <group scale={0.8}><PlayerVisuals scene={scene} animations={animations} currentAnimation={animation} isGhost={false} /></group>
-        <group scale={0.8}><PlayerVisuals scene={ghostScene} animations={animations} currentAnimation={animation} isGhost={true} /></group>
-      </group>
-    </RigidBody>
+    <>
+      {members.map((member) => <PlayableCharacter key={member.id} {...member} bodies={bodies} />)}
+    </>
   );
 };
 
-const Level = () => {
-  const { scene } = useGLTF('/models/level_test.glb');
+// 🧭 내비메시 / 경비병 경로 디버그 오버레이
+const NavMeshDebug = () => {
+  const navMesh = useGameStore((state) => state.navMesh);
+  const navDebugPaths = useGameStore((state) => state.navDebugPaths);
+
+  const edgeGeometry = useMemo(() => {
+    if (!navMesh) return null;
+    const positions: number[] = [];
+    for (const tri of navMesh.triangles) {
+      for (let k = 0; k < 3; k++) {
+        const a = navMesh.vertices[tri.vertices[k]];
+        const b = navMesh.vertices[tri.vertices[(k + 1) % 3]];
+        positions.push(a.x, a.y + 0.05, a.z, b.x, b.y + 0.05, b.z);
+      }
+    }
+    const geometry = new BufferGeometry();
+    geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+    return geometry;
+  }, [navMesh]);
+
+  return (
+    <group>
+      {edgeGeometry && (
+        <lineSegments geometry={edgeGeometry} frustumCulled={false}>
+          <lineBasicMaterial color="#00ffff" transparent opacity={0.35} depthWrite={false} />
+        </lineSegments>
+      )}
+      {Object.entries(navDebugPaths).map(([guardId, path]) => path && path.length > 1 && (
+        <Line key={guardId} points={path.map((p) => [p.x, p.y + 0.1, p.z] as [number, number, number])} color="#ff00ff" lineWidth={2} />
+      ))}
+    </group>
+  );
+};
+
+const Level = ({ editing }: { editing: boolean }) => {
+  const { scene } = useGLTF(LEVEL_MODEL_URL);
+  const setNavMesh = useGameStore((state) => state.setNavMesh);
+  const setLevelData = useGameStore((state) => state.setLevelData);
+  const levelData = useGameStore((state) => state.levelData);
+  const [sidecar, setSidecar] = useState<LevelDataFile | null>(null);
+
+  // GLB 의 PlayerStart / Patrol_* / Bush_* 마커
+  const gltfLevel = useMemo(() => {
+    try {
+      return extractGltfLevelData(scene);
+    } catch (e) {
+      console.error(`🗺️ Invalid level markers in ${LEVEL_MODEL_URL}:`, (e as Error).message);
+      return null;
+    }
+  }, [scene]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLevelDataFile(LEVEL_DATA_URL)
+      .then((file) => { if (!cancelled) setSidecar(file); })
+      .catch((e) => console.error('🗺️ Failed to load level data:', e.message));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    setLevelData(resolveLevelData(gltfLevel, sidecar, BENCHMARK_LEVEL));
+  }, [gltfLevel, sidecar, setLevelData]);
 
   useEffect(() => {
     scene.traverse((child: any) => {
@@ -637,39 +1452,179 @@ const Level = () => {
     });
   }, [scene]);
 
+  useEffect(() => {
+    const navMesh = bakeLevelNavMesh(scene);
+    console.log(`🧭 NavMesh baked: ${navMesh.triangles.length} triangles`);
+    setNavMesh(navMesh);
+    return () => setNavMesh(null);
+  }, [scene, setNavMesh]);
+
   return (
     <group>
       {/* RigidBody에 collisionGroups 적용 (Level Group 1) */}
       <RigidBody type="fixed" colliders={false} collisionGroups={GROUP_LEVEL}>
         <MeshCollider type="trimesh">
-          <primitive object={scene} />
+          <primitive
+            object={scene}
+            onClick={editing ? (e: ThreeEvent<MouseEvent>) => {
+              // 궤도 카메라 드래그는 클릭으로 치지 않습니다.
+              if (e.delta > 4) return;
+              e.stopPropagation();
+              applyEditorClick([e.point.x, e.point.y, e.point.z]);
+            } : undefined}
+          />
         </MeshCollider>
       </RigidBody>
 
-      <Bush position={[-15, 0, 15]} />
-      <Bush position={[-26, 0, 10]} />
+      <OcclusionFader root={scene} enabled={!editing} />
+
+      <CoverVolumes volumes={levelData.bushes} />
+
+      {levelData.checkpoints.map((checkpoint) => (
+        <Checkpoint key={checkpoint.id} id={checkpoint.id} position={checkpoint.position} size={checkpoint.size} />
+      ))}
+
+      <Interactables items={levelData.interactables} />
+
+      {levelData.extractionZones.map((zone) => (
+        <Extraction key={zone.id} {...zone} />
+      ))}
+
+      <Lamps lamps={levelData.lamps} />
 
-      <Enemy path={[
-        new Vector3(-11, 5, 20),
-        new Vector3(-8.5, 5, 15.2),
-        new Vector3(-4.2, 5, 16),
-        new Vector3(-6, 5, 24)
-      ]} />
+      {levelData.alarmPanels.map((panel) => (
+        <AlarmPanel key={panel.id} {...panel} />
+      ))}
 
-      <Enemy path={[
-        new Vector3(-16.5, 5, 13.0),
-        new Vector3(-9.4, 5, 13.1)
-      ]} />
+      {levelData.enemies.map((enemy) => (
+        <Enemy key={enemy.id} id={enemy.id} patrol={enemy.patrol} perception={enemy.perception} />
+      ))}
+      {levelData.cameras.map((camera) => <SecurityCamera key={camera.id} {...camera} />)}
+      {levelData.sentries.map((sentry) => <Sentry key={sentry.id} {...sentry} />)}
     </group>
   );
 };
 
+// 🗓️ 렌더 프레임마다 지각 스케줄러를 돌립니다. 조작 중인 캐릭터와의 거리로 시야 표시의 LOD 를 정합니다.
+const VisionScheduler = () => {
+  useFrame(() => {
+    runPerceptionFrame(useGameStore.getState().playerPosition);
+  });
+  return null;
+};
+
+// ⏱️ 키보드 + 게임패드 상태를 틱 입력으로 공급 (녹화/재생 포함)
+const GameSimulation = () => {
+  const [, get] = useKeyboardControls<Controls>();
+  const readInput = () => {
+    const held: Record<string, boolean> = { ...get() };
+    const pad = readGamepad();
+    if (!pad) return { held, moveX: 0, moveY: 0 };
+    for (const [action, pressed] of Object.entries(pad.held)) if (pressed) held[action] = true;
+    return { held, moveX: pad.moveX, moveY: pad.moveY };
+  };
+
+  // ⏸️ 일시정지 중에는 틱이 돌지 않으므로 menu 입력은 렌더 프레임에서 확인합니다.
+  const menuHeld = useRef(false);
+  useFrame(() => {
+    const menu = !!readInput().held[Controls.menu];
+    if (menu && !menuHeld.current) {
+      const { isPaused, setPaused } = useGameStore.getState();
+      setPaused(!isPaused);
+    }
+    menuHeld.current = menu;
+  });
+
+  // 🚨 전역 경보 타이머
+  useFixedUpdate(({ dt }) => {
+    const { alarmRemaining, tickAlarm } = useGameStore.getState();
+    if (alarmRemaining > 0) tickAlarm(dt);
+  }, TICK_ORDER.world);
+
+  return <SimulationDriver readInput={readInput} controls={CONTROL_NAMES} />;
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([JSON.stringify(data)], { type: 'application/json' }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// 🎬 녹화는 시작 스냅샷 + 틱별 입력이므로, 재생은 스냅샷 복원 후 입력만 다시 흘려보냅니다.
+const playRecording = (recording: InputRecording) => {
+  if (!restoreCheckpoint(recording.startSnapshot)) return;
+  const ticks = recording.runs.reduce((sum, [, count]) => sum + count, 0);
+  console.log(`🎬 Replaying ${ticks} ticks`);
+  startReplay(recording, () => console.log('🎬 Replay finished'));
+};
+
+let lastRecording: InputRecording | null = null;
+
+// 💾 새로고침 후 마지막 체크포인트에서 이어하기 (레벨/플레이어가 등록된 뒤 실행)
+const CheckpointLoader = () => {
+  useEffect(() => {
+    restoreCheckpoint();
+  }, []);
+  return null;
+};
+
 export default function App() {
   const { isLiveMode, showPhysics } = useControls({
     isLiveMode: { value: false, label: 'Live Mode' },
     showPhysics: { value: false, label: 'Show Physics' }
   });
+  useControls('Save', {
+    'Save Now': button(() => saveCheckpoint('manual')),
+    'Load Checkpoint': button(() => restoreCheckpoint()),
+    'Clear Save': button(() => {
+      clearSnapshot();
+      useGameStore.getState().setLastCheckpointId(null);
+    }),
+  });
+  useControls('Replay', {
+    'Start Recording': button(() => {
+      const snapshot = captureSnapshot(useGameStore.getState().lastCheckpointId);
+      if (!snapshot) return;
+      startRecording(CONTROL_NAMES, snapshot);
+      console.log('🎬 Recording started');
+    }),
+    'Stop & Download': button(() => {
+      if (simulationMode() === 'replaying') stopReplay();
+      const recording = stopRecording();
+      if (!recording) return;
+      lastRecording = recording;
+      console.log(`🎬 Recording stopped (${recording.runs.length} input runs)`);
+      downloadJson(recording, `replay-${Date.now()}.json`);
+    }),
+    'Replay Last': button(() => {
+      if (lastRecording) playRecording(lastRecording);
+    }),
+    'Replay File': button(() => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = 'application/json';
+      input.onchange = async () => {
+        const file = input.files?.[0];
+        if (!file) return;
+        try {
+          const recording = parseRecording(JSON.parse(await file.text()), CONTROL_NAMES);
+          if (!recording) throw new Error('incompatible recording');
+          lastRecording = recording;
+          playRecording(recording);
+        } catch (e) {
+          console.warn(`🎬 Failed to load ${file.name}:`, (e as Error).message);
+        }
+      };
+      input.click();
+    }),
+  });
   const isLive = isLiveMode;
+  const keyBindings = useGameStore((state) => state.keyBindings);
+  const isPaused = useGameStore((state) => state.isPaused);
+  const isMissionOver = useGameStore((state) => state.mission.status !== 'active');
+  const keyboardMap = useMemo(() => toKeyboardMap(keyBindings), [keyBindings]);
   const orbitControlsRef = useRef<any>(null);
 
   useEffect(() => {
@@ -679,23 +1634,48 @@ export default function App() {
 
   return (
     <KeyboardControls map={keyboardMap}>
+      <InputSettings />
+      <AudioSettingsPanel />
+      {!isLive && <PerceptionSettings />}
       <Canvas shadows onPointerDown={() => { window.focus(); if (document.activeElement instanceof HTMLElement) document.activeElement.blur(); }}>
         <fogExp2 attach="fog" args={['#503857', 0.0128]} />
         <ambientLight intensity={0.54} color="#e8aa81" />
-        <directionalLight position={[50, 35, 15]} intensity={1.8} castShadow shadow-mapSize={[2048, 2048]}>
+        <directionalLight position={SUN_POSITION} intensity={1.8} castShadow shadow-mapSize={[2048, 2048]}>
           <orthographicCamera attach="shadow-camera" args={[-50, 50, 50, -50]} />
         </directionalLight>
         <OrthographicCamera makeDefault position={[START_POSITION[0] + 20, START_POSITION[1] + 20, START_POSITION[2] + 20]} zoom={40} near={0.1} far={1000} onUpdate={c => { if (!isLive) c.lookAt(START_POSITION[0], START_POSITION[1], START_POSITION[2]) }} />
         {!isLive && <OrbitControls ref={orbitControlsRef} target={new Vector3(...START_POSITION)} enableZoom={true} enableRotate={true} maxPolarAngle={Math.PI / 2.1} />}
 
-        <Physics debug={!isLive && showPhysics}>
+        <Physics debug={!isLive && showPhysics} timeStep={FIXED_DT} paused={isPaused || isMissionOver}>
+          <GameSimulation />
+          <MissionDirector />
+          <VisionScheduler />
+          {isLive && <GuardEdgeArrows />}
           <Suspense fallback={null}>
-            <Level />
-            <Player isLive={isLive} orbitControlsRef={orbitControlsRef} />
+            <Level editing={!isLive} />
+            <Party isLive={isLive} orbitControlsRef={orbitControlsRef} />
+            <Projectiles />
+            <CheckpointLoader />
+            {!isLive && showPhysics && <NavMeshDebug />}
+            {!isLive && <LevelEditor fileName={LEVEL_DATA_URL.split('/').pop()!} />}
           </Suspense>
         </Physics>
         <color attach="background" args={['#200a0a']} />
+        <AudioSystem />
       </Canvas>
+      {/* 🚨 경비병 반응 HUD (월드 공간 아이콘 / 가장자리 화살표가 붙는 레이어). 메뉴보다 아래에 깔립니다. */}
+      <div className="ui-layer" ref={hudLayerRef} />
+      <div className="ui-layer">
+        <Minimap />
+        <ObjectiveTracker />
+        <LightGem />
+        <CoverIndicator />
+        <InteractPrompt />
+        <InventoryPanel />
+        <PauseMenu />
+        <MissionResults />
+        {BENCHMARK_GUARDS !== null && <PerfOverlay guards={BENCHMARK_GUARDS} />}
+      </div>
     </KeyboardControls>
   );
 }
\ No newline at end of file
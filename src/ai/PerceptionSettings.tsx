@@ -0,0 +1,74 @@
+import { button, folder, useControls } from 'leva';
+import { useGameStore } from '../store';
+import { PERCEPTION_PROFILE_IDS, PERCEPTION_PROFILES, PerceptionProfile, PerceptionProfileId } from './perceptionProfiles';
+
+// 🎚️ 지각 프로필 조정 패널 (Live Mode 가 꺼져 있을 때)
+// 값을 바꾸면 같은 프로필을 쓰는 경비병 전부에 바로 반영됩니다. 저장되지는 않습니다.
+
+type ProfileField = 'verticalFov' | 'eyeHeight' | 'heightThreshold';
+const TIERS = ['central', 'mid', 'peripheral'] as const;
+
+// leva 값(평평한 키) ↔ 프로필
+const toControlValues = (profile: PerceptionProfile): Record<string, number> => ({
+  ...Object.fromEntries(TIERS.flatMap((tier) => [[`${tier} fov`, profile[tier].fov], [`${tier} distance`, profile[tier].distance]])),
+  verticalFov: profile.verticalFov,
+  eyeHeight: profile.eyeHeight,
+  heightThreshold: profile.heightThreshold,
+});
+
+const updateProfile = (id: PerceptionProfileId, recipe: (profile: PerceptionProfile) => PerceptionProfile) => {
+  const { perceptionProfiles, setPerceptionProfile } = useGameStore.getState();
+  setPerceptionProfile(id, recipe(perceptionProfiles[id]));
+};
+
+const ProfileControls = ({ id }: { id: PerceptionProfileId }) => {
+  // 스토어에 직접 반영하므로 onChange 만 쓰고 렌더는 다시 하지 않습니다.
+  const [, set] = useControls('Perception', (): Record<string, any> => {
+    const profile = useGameStore.getState().perceptionProfiles[id];
+    const schema: Record<string, any> = {};
+    for (const tier of TIERS) {
+      for (const key of ['fov', 'distance'] as const) {
+        schema[`${tier} ${key}`] = {
+          value: profile[tier][key],
+          min: 0,
+          max: key === 'fov' ? 360 : 40,
+          step: key === 'fov' ? 1 : 0.5,
+          onChange: (value: number, _: string, { initial }: { initial: boolean }) => {
+            if (initial) return;
+            updateProfile(id, (current) => ({ ...current, [tier]: { ...current[tier], [key]: value } }));
+          },
+        };
+      }
+    }
+    const field = (name: ProfileField, max: number, step: number) => ({
+      value: profile[name],
+      min: 0,
+      max,
+      step,
+      onChange: (value: number, _: string, { initial }: { initial: boolean }) => {
+        if (initial) return;
+        updateProfile(id, (current) => ({ ...current, [name]: value }));
+      },
+    });
+    return {
+      [id]: folder({
+        ...schema,
+        verticalFov: field('verticalFov', 90, 1),
+        eyeHeight: field('eyeHeight', 3, 0.05),
+        heightThreshold: field('heightThreshold', 20, 0.5),
+        'Reset': button(() => {
+          useGameStore.getState().setPerceptionProfile(id, PERCEPTION_PROFILES[id]);
+          set(toControlValues(PERCEPTION_PROFILES[id]));
+        }),
+      }, { collapsed: true }),
+    };
+  }, { collapsed: true });
+
+  return null;
+};
+
+export const PerceptionSettings = () => (
+  <>
+    {PERCEPTION_PROFILE_IDS.map((id) => <ProfileControls key={id} id={id} />)}
+  </>
+);
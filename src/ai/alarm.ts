@@ -0,0 +1,55 @@
+// 🚨 전역 경보
+// 경보 패널에서 울린 경보는 일정 시간 유지되고, 그동안 모든 경비병의 경계(시야각/시야 거리)가 올라갑니다.
+// 마지막 fadeTime 초 동안 경계가 서서히 원래대로 돌아옵니다.
+
+import type { Vec3Like } from './guardBrain';
+import { PerceptionProfile, scaleProfile } from './perceptionProfiles';
+import type { AlarmPanelSpawn } from '../level/levelData';
+
+export const ALARM = {
+  duration: 30,             // 초
+  fadeTime: 10,
+  panelRange: 25,           // 이보다 먼 패널로는 달려가지 않고 바로 추격
+  fovBoost: 0.5,            // 최대 경계 시 시야각 배수 증가분
+  viewDistanceBoost: 0.5,
+  vigilanceSteps: 20,       // 경계 수준을 이 단계로 끊어 확장된 프로필을 돌려씁니다
+};
+
+/** 남은 경보 시간으로부터 경계 수준 0 ~ 1 */
+export function vigilanceLevel(alarmRemaining: number): number {
+  return Math.min(1, Math.max(0, alarmRemaining / ALARM.fadeTime));
+}
+
+// 원래 프로필 → 경계 단계 → 확장된 프로필. 경보 중 매 틱 새 객체를 만들지 않고, outerVisionCone 캐시도 그대로 살립니다.
+const vigilantProfiles = new WeakMap<PerceptionProfile, Map<number, PerceptionProfile>>();
+
+export function vigilantProfile(profile: PerceptionProfile, vigilance: number): PerceptionProfile {
+  const step = Math.round(vigilance * ALARM.vigilanceSteps);
+  if (step <= 0) return profile;
+  let scaled = vigilantProfiles.get(profile);
+  if (!scaled) {
+    scaled = new Map();
+    vigilantProfiles.set(profile, scaled);
+  }
+  let result = scaled.get(step);
+  if (!result) {
+    const level = step / ALARM.vigilanceSteps;
+    result = scaleProfile(profile, 1 + ALARM.fovBoost * level, 1 + ALARM.viewDistanceBoost * level);
+    scaled.set(step, result);
+  }
+  return result;
+}
+
+/** 범위 안에서 수평 거리 기준 가장 가까운 경보 패널 위치, 없으면 null */
+export function nearestAlarmPanel(panels: AlarmPanelSpawn[], position: Vec3Like): Vec3Like | null {
+  let nearest: Vec3Like | null = null;
+  let nearestDist = ALARM.panelRange;
+  for (const { position: [x, y, z] } of panels) {
+    const dist = Math.hypot(x - position.x, z - position.z);
+    if (dist <= nearestDist) {
+      nearest = { x, y, z };
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+}
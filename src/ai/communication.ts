@@ -0,0 +1,30 @@
+// 📣 경비병 간 연락
+// 플레이어를 발견한 경비병이 외치면(callout) 가까이 있거나 서로 보이는 경비병만 마지막 목격 위치를 전달받습니다.
+// 보안 카메라와 보초는 무전(radio)으로 알리므로 거리와 관계없이 모든 경비병이 전달받습니다.
+
+import type { Vec3Like } from './guardBrain';
+import { PhysicsQuery, countWallsBetween } from './perception';
+
+export interface Callout {
+  id: number;
+  guardId: string;          // 외친 경비병
+  position: Vec3Like;       // 외친 경비병의 눈 위치
+  target: Vec3Like;         // 전달하는 마지막 목격 위치
+  radio: boolean;
+}
+
+export const COMMUNICATION = {
+  shoutRadius: 8,           // 벽과 관계없이 들리는 거리
+  sightRadius: 20,          // 서로 보이면 손짓으로 전달되는 거리
+  repeatInterval: 1.5,      // 추격 중 목격 위치를 다시 알리는 간격 (초)
+};
+
+/** listener(눈 위치)가 callout 을 전달받는지. 가까우면 항상, 멀면 사이에 벽이 없을 때만. */
+export function canReceiveCallout(physics: PhysicsQuery, callout: Callout, listener: Vec3Like, levelGroups: number): boolean {
+  if (callout.radio) return true;
+  const { position } = callout;
+  const distance = Math.hypot(position.x - listener.x, position.y - listener.y, position.z - listener.z);
+  if (distance <= COMMUNICATION.shoutRadius) return true;
+  if (distance > COMMUNICATION.sightRadius) return false;
+  return countWallsBetween(physics, position, listener, levelGroups) === 0;
+}
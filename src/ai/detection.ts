@@ -0,0 +1,79 @@
+// 👁️ 감지 게이지 충전 속도 계산
+// 시야 단계(정면/일반/주변), 거리, 자세(웅크림/점프), 움직임, 엄폐 종류, 노출된 신체 비율, 조명 노출도로
+// 초당 게이지 상승량을 구합니다.
+
+import type { PerceptionProfile } from './perceptionProfiles';
+import { CoverKind, resolveConcealment } from '../cover/cover';
+
+export interface DetectionInput {
+  distance: number;         // 경비병 ~ 플레이어 거리
+  angle: number;            // 정면에서 벗어난 수평 각도 (도)
+  heightDiff: number;       // 수직 높이 차
+  visibleFraction: number;  // 시야에 노출된 신체 샘플 비율 0 ~ 1
+  isCrouching: boolean;
+  isJumping: boolean;
+  cover: readonly CoverKind[];   // 들어가 있는 엄폐 볼륨 종류 (겹치면 여러 개)
+  isMoving: boolean;
+  lightExposure: number;    // 플레이어가 받는 빛 0(어둠) ~ 1(밝음)
+}
+
+export const DETECTION_RATES = {
+  redZone: 2.0,             // 근거리(RED) 초당 충전량 → 약 0.5초 만에 발각
+  yellowZoneNear: 0.7,      // YELLOW 구역 안쪽 경계
+  yellowZoneFar: 0.2,       // 시야 끝
+  peripheral: 0.35,         // 주변 시야에서 움직이는 대상
+  crouchMultiplier: 0.5,    // RED 구역에서 웅크렸을 때
+  jumpMultiplier: 1.5,
+  darkRangeScale: 0.45,     // 완전한 어둠에서의 감지 거리 배수 (밝을수록 1 에 가까워짐)
+  darkRateScale: 0.3,       // 완전한 어둠에서의 충전 속도 배수
+};
+
+export type DetectionRates = typeof DETECTION_RATES;
+
+/** 초당 감지 게이지 상승량. 0 이면 이번 프레임에는 보이지 않는 것으로 취급합니다. */
+export function detectionFillRate(
+  input: DetectionInput,
+  profile: PerceptionProfile,
+  rates: DetectionRates = DETECTION_RATES
+): number {
+  const { distance, angle, heightDiff, visibleFraction, isCrouching, isJumping, isMoving } = input;
+  const concealment = resolveConcealment(input.cover, isCrouching);
+  // 그림자/사물함 안은 빛이 없는 것으로 봅니다.
+  const light = concealment.dark ? 0 : Math.min(1, Math.max(0, input.lightExposure));
+
+  if (visibleFraction <= 0) return 0;
+  // 수풀/낮은 벽 뒤에서 웅크리거나 사물함 안이면 완전 은신 (규칙은 엄폐 종류별)
+  if (concealment.hidden) return 0;
+
+  // 어두울수록 가까이 와야 보입니다.
+  const rangeScale = rates.darkRangeScale + (1 - rates.darkRangeScale) * light;
+  const inTier = ({ fov, distance: tierDistance }: PerceptionProfile['central']) =>
+    angle < fov / 2 && distance < tierDistance * rangeScale;
+  const redZoneDist = profile.central.distance * rangeScale;
+  const viewDistance = profile.mid.distance * rangeScale;
+  const isLowProfile = isCrouching && !isJumping;
+
+  let rate: number;
+  if (inTier(profile.central) && heightDiff <= profile.heightThreshold) {
+    rate = rates.redZone * (isLowProfile ? rates.crouchMultiplier : 1);
+  } else if (inTier(profile.mid)) {
+    // YELLOW 구역은 웅크리고 있으면 눈치채지 못합니다.
+    if (isLowProfile) return 0;
+    const t = viewDistance > redZoneDist
+      ? Math.min(1, Math.max(0, (distance - redZoneDist) / (viewDistance - redZoneDist)))
+      : 1;
+    rate = rates.yellowZoneNear + (rates.yellowZoneFar - rates.yellowZoneNear) * t;
+  } else if (inTier(profile.peripheral)) {
+    // 주변 시야는 움직임만 잡아냅니다.
+    if (!isMoving) return 0;
+    rate = rates.peripheral * (isLowProfile ? rates.crouchMultiplier : 1);
+  } else {
+    return 0;
+  }
+
+  if (isJumping) rate *= rates.jumpMultiplier;
+  rate *= concealment.rateMultiplier;
+  rate *= rates.darkRateScale + (1 - rates.darkRateScale) * light;
+
+  return rate * visibleFraction;
+}
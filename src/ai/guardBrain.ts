@@ -0,0 +1,173 @@
+// 🤖 경비병 AI 상태 머신
+// React/Canvas 에 의존하지 않는 순수 로직입니다. Enemy 가 매 프레임 감각 정보를 넘겨주고,
+// 상태가 바뀌면 전환 정보를 돌려받아 이동/애니메이션/스토어 갱신에 사용합니다.
+
+export type GuardMode = 'patrol' | 'suspicious' | 'investigate' | 'search' | 'return' | 'alerted' | 'alarm' | 'unconscious';
+
+export interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface GuardBrain {
+  mode: GuardMode;
+  stateTime: number;        // 현재 상태에 머문 시간 (초)
+  lostSightTime: number;    // 플레이어를 마지막으로 본 뒤 지난 시간 (초)
+  suspicion: number;        // 감지 게이지 0 ~ 1
+  lastKnownPosition: Vec3Like | null;
+}
+
+export interface GuardSenses {
+  canSeePlayer: boolean;
+  detectionRate: number;    // 목격 중 초당 게이지 상승량 (detectionFillRate)
+  playerPosition: Vec3Like;
+  arrived: boolean;         // 현재 상태의 이동 목표(마지막 목격 지점, 복귀 웨이포인트)에 도착했는지
+  callout: Vec3Like | null; // 이번 프레임에 전달받은 동료의 목격 위치
+  alarmPanel: Vec3Like | null;  // 달려가 경보를 울릴 수 있는 패널 (경보 중이거나 범위 밖이면 null)
+  heardNoise: Vec3Like | null;  // 이번 프레임에 들린 소음 위치 (임계값 이상)
+  discoveredBody: Vec3Like | null;  // 이번 프레임에 처음 발견한 기절한 동료 위치
+}
+
+export interface GuardTransition {
+  from: GuardMode;
+  to: GuardMode;
+  reason: 'sighted' | 'detected' | 'ally' | 'heard' | 'body' | 'alarm' | 'lost' | 'arrived' | 'timeout' | 'calm' | 'takedown';
+}
+
+export const GUARD_TIMINGS = {
+  suspicionDecay: 0.25,        // 미목격 시 초당 게이지 감소량
+  suspiciousTimeout: 3,        // 의심 상태에서 시야를 잃고 조사로 넘어가기까지
+  alertLoseSightTimeout: 6,    // 추격 중 시야를 잃고 조사로 격하되기까지
+  searchDuration: 6,           // 마지막 목격 지점 주변을 둘러보는 시간
+};
+
+export type GuardTimings = typeof GUARD_TIMINGS;
+
+export const createGuardBrain = (): GuardBrain => ({
+  mode: 'patrol',
+  stateTime: 0,
+  lostSightTime: 0,
+  suspicion: 0,
+  lastKnownPosition: null,
+});
+
+const enter = (brain: GuardBrain, to: GuardMode, reason: GuardTransition['reason']): GuardTransition => {
+  const transition: GuardTransition = { from: brain.mode, to, reason };
+  brain.mode = to;
+  brain.stateTime = 0;
+  return transition;
+};
+
+// 직접 발견한 경비병은 울릴 수 있는 경보 패널이 있으면 먼저 그쪽으로, 없으면 바로 추격합니다.
+const raiseAlert = (brain: GuardBrain, senses: GuardSenses, reason: GuardTransition['reason']) =>
+  enter(brain, senses.alarmPanel ? 'alarm' : 'alerted', reason);
+
+/**
+ * 경비병 상태를 delta 초만큼 진행합니다. brain 은 제자리에서 갱신되며,
+ * 상태가 바뀐 경우에만 전환 정보를 반환합니다.
+ */
+export function stepGuardBrain(
+  brain: GuardBrain,
+  senses: GuardSenses,
+  delta: number,
+  timings: GuardTimings = GUARD_TIMINGS
+): GuardTransition | null {
+  // 기절한 경비병은 아무것도 느끼지 못합니다.
+  if (brain.mode === 'unconscious') return null;
+  brain.stateTime += delta;
+
+  if (senses.canSeePlayer) {
+    brain.lostSightTime = 0;
+    const { x, y, z } = senses.playerPosition;
+    brain.lastKnownPosition = { x, y, z };
+  } else {
+    brain.lostSightTime += delta;
+  }
+
+  // 동료가 알려준 위치로 추격합니다. 이미 추격 중이면 직접 보고 있지 않을 때만 목표를 갱신합니다.
+  if (senses.callout && brain.mode !== 'alarm') {
+    if (brain.mode === 'alerted') {
+      if (!senses.canSeePlayer) brain.lastKnownPosition = { ...senses.callout };
+    } else {
+      brain.lastKnownPosition = { ...senses.callout };
+      brain.suspicion = 1;
+      return enter(brain, 'alerted', 'ally');
+    }
+  }
+
+  // 쓰러진 동료를 보면 곧바로 경계 상태로 그 자리에 달려갑니다.
+  if (brain.mode !== 'alerted' && brain.mode !== 'alarm' && senses.discoveredBody) {
+    brain.lastKnownPosition = { ...senses.discoveredBody };
+    brain.suspicion = 1;
+    return raiseAlert(brain, senses, 'body');
+  }
+
+  switch (brain.mode) {
+    case 'alerted':
+      brain.suspicion = 1;
+      if (brain.lostSightTime >= timings.alertLoseSightTimeout) return enter(brain, 'investigate', 'lost');
+      return null;
+
+    // 패널에 도착했거나 다른 경비병이 먼저 울렸으면 추격으로 넘어갑니다.
+    case 'alarm':
+      brain.suspicion = 1;
+      if (senses.arrived || !senses.alarmPanel) return enter(brain, 'alerted', 'alarm');
+      return null;
+
+    case 'suspicious':
+      if (senses.heardNoise && !senses.canSeePlayer) brain.lastKnownPosition = { ...senses.heardNoise };
+      if (senses.canSeePlayer) {
+        brain.suspicion = Math.min(1, brain.suspicion + senses.detectionRate * delta);
+        if (brain.suspicion >= 1) return raiseAlert(brain, senses, 'detected');
+        return null;
+      }
+      brain.suspicion = Math.max(0, brain.suspicion - timings.suspicionDecay * delta);
+      if (brain.lostSightTime >= timings.suspiciousTimeout) return enter(brain, 'investigate', 'lost');
+      return null;
+
+    default:
+      if (senses.canSeePlayer) return enter(brain, 'suspicious', 'sighted');
+      brain.suspicion = Math.max(0, brain.suspicion - timings.suspicionDecay * delta);
+      // 소리가 나면 그쪽으로 조사하러 갑니다. 이미 조사 중이면 목표만 갱신합니다.
+      if (senses.heardNoise) {
+        brain.lastKnownPosition = { ...senses.heardNoise };
+        if (brain.mode !== 'investigate') return enter(brain, 'investigate', 'heard');
+      }
+  }
+
+  switch (brain.mode) {
+    case 'investigate':
+      if (senses.arrived) return enter(brain, 'search', 'arrived');
+      return null;
+    case 'search':
+      if (brain.stateTime >= timings.searchDuration) return enter(brain, 'return', 'timeout');
+      return null;
+    case 'return':
+      if (senses.arrived) return enter(brain, 'patrol', 'calm');
+      return null;
+    default:
+      return null;
+  }
+}
+
+/** 제압당해 기절 상태로 바꿉니다. 이후 stepGuardBrain 은 아무 전환도 만들지 않습니다. */
+export function knockOutGuard(brain: GuardBrain): GuardTransition {
+  brain.suspicion = 0;
+  brain.lastKnownPosition = null;
+  return enter(brain, 'unconscious', 'takedown');
+}
+
+/** 현재 위치에서 수평 거리 기준 가장 가까운 순찰 웨이포인트 인덱스 */
+export function nearestWaypointIndex(path: Vec3Like[], position: Vec3Like): number {
+  let best = 0;
+  let bestDist = Infinity;
+  path.forEach((point, i) => {
+    const d = (point.x - position.x) ** 2 + (point.z - position.z) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  });
+  return best;
+}
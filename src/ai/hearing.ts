@@ -0,0 +1,47 @@
+// 👂 소음 / 청각
+// 플레이어 행동(달리기, 점프, 착지, 투척물 충돌)이 소음 이벤트를 만들고,
+// 경비병은 거리 감쇠와 벽 차폐를 거친 체감 음량이 임계값을 넘으면 반응합니다.
+
+import type { Vec3Like } from './guardBrain';
+
+export type NoiseKind = 'footstep' | 'jump' | 'land' | 'impact';
+
+export interface NoiseProfile {
+  radius: number;     // 이 거리에서 음량이 0 이 됨
+  loudness: number;   // 발생 지점 음량 0 ~ 1
+}
+
+export interface NoiseEvent extends NoiseProfile {
+  id: number;
+  kind: NoiseKind;
+  position: Vec3Like;
+}
+
+export const NOISE_PROFILES = {
+  runStep: { radius: 8, loudness: 0.8 },
+  walkStep: { radius: 4, loudness: 0.4 },       // 스틱을 살짝 기울여 걷기
+  crouchStep: { radius: 1.2, loudness: 0.1 },   // 웅크려 걷기는 거의 들리지 않음
+  jump: { radius: 4, loudness: 0.5 },
+  dashJump: { radius: 9, loudness: 0.9 },
+} satisfies Record<string, NoiseProfile>;
+
+export const HEARING = {
+  threshold: 0.2,           // 이보다 작게 들리면 무시
+  wallAttenuation: 0.35,    // 벽 하나를 통과할 때마다 곱해지는 비율
+  landMinSpeed: 3,          // 이보다 느린 착지는 소리 없음
+  landRefSpeed: 7.2,        // 일반 점프(JUMP_FORCE) 착지 속도 기준
+};
+
+/** 낙하 속도에 비례하는 착지 소음 */
+export function landingNoise(impactSpeed: number): NoiseProfile | null {
+  if (impactSpeed < HEARING.landMinSpeed) return null;
+  const ratio = Math.min(2, impactSpeed / HEARING.landRefSpeed);
+  return { radius: 3 + 5 * ratio, loudness: Math.min(1, 0.4 + 0.4 * ratio) };
+}
+
+/** 청자 위치에서의 체감 음량. walls 는 소리가 통과한 벽 개수입니다. */
+export function perceivedLoudness(noise: NoiseProfile & { position: Vec3Like }, listener: Vec3Like, walls: number): number {
+  const distance = Math.hypot(noise.position.x - listener.x, noise.position.y - listener.y, noise.position.z - listener.z);
+  if (distance >= noise.radius) return 0;
+  return noise.loudness * (1 - distance / noise.radius) * HEARING.wallAttenuation ** walls;
+}
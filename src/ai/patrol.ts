@@ -0,0 +1,30 @@
+// 🚶 순찰 웨이포인트 순환
+// 현재 웨이포인트에 도착하면 wait 만큼 머문 뒤 다음 웨이포인트로 넘어갑니다. 마지막 다음은 처음입니다.
+
+import type { PatrolWaypoint } from '../level/levelData';
+
+export interface PatrolState {
+  index: number;
+  waitRemaining: number | null;   // 웨이포인트 대기 남은 시간 (대기 중이 아니면 null)
+}
+
+export function createPatrolState(index = 0): PatrolState {
+  return { index, waitRemaining: null };
+}
+
+/** 에디터에서 웨이포인트를 지워 인덱스가 범위를 벗어나면 처음부터 다시 순찰합니다. */
+export function clampPatrol(state: PatrolState, length: number) {
+  if (state.index < length) return;
+  state.index = 0;
+  state.waitRemaining = null;
+}
+
+/** 도착해 있는 동안 매 틱 호출합니다. 대기가 끝나 다음 웨이포인트로 넘어간 틱에 true. */
+export function stepPatrolWait(state: PatrolState, patrol: PatrolWaypoint[], dt: number): boolean {
+  if (patrol.length === 0) return false;
+  state.waitRemaining = (state.waitRemaining ?? patrol[state.index].wait) - dt;
+  if (state.waitRemaining > 0) return false;
+  state.index = (state.index + 1) % patrol.length;
+  state.waitRemaining = null;
+  return true;
+}
@@ -0,0 +1,167 @@
+// 👁️👂 Rapier 레이캐스트 기반 지각 판정
+// React/렌더링 없이 Rapier 월드만 있으면 동작하므로, Node 에서 월드를 직접 만들어 시나리오를 돌려볼 수 있습니다.
+
+import type { RapierContext, RapierRigidBody } from '@react-three/rapier';
+import type { Vec3Like } from './guardBrain';
+
+export type PhysicsQuery = Pick<RapierContext, 'world' | 'rapier'>;
+
+export interface VisionCone {
+  viewDistance: number;
+  fov: number;              // 수평 시야각 (도)
+  verticalFov: number;      // 수직 허용 각 (도)
+  eyeHeight: number;        // 발 기준 눈 높이
+}
+
+// 노출 비율 계산용 신체 샘플 높이 (발 / 몸통 / 머리)
+export const STAND_BODY_SAMPLES = [0.3, 0.9, 1.5];
+export const CROUCH_BODY_SAMPLES = [0.3, 0.9];
+// 바닥에 쓰러진 경비병
+export const LYING_BODY_SAMPLES = [0.2];
+
+export interface VisionSample {
+  distance: number;
+  heightDiff: number;
+  angle: number;            // 정면에서 벗어난 수평 각도 (도), 판정 전이면 180
+  visibleFraction: number;  // 시야각 밖이면 0
+}
+
+const MAX_HEARING_SURFACES = 8;
+
+type RapierRay = InstanceType<PhysicsQuery['rapier']['Ray']>;
+
+// 🧹 경비병 수십 명이 매 틱/프레임 쏘는 레이마다 객체를 만들지 않도록 하나를 돌려 씁니다 (castRay 는 동기라 안전).
+let scratchRay: RapierRay | null = null;
+export function aimRay(rapier: PhysicsQuery['rapier'], origin: Vec3Like, dx: number, dy: number, dz: number): RapierRay {
+  if (!scratchRay) scratchRay = new rapier.Ray({ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 });
+  scratchRay.origin.x = origin.x;
+  scratchRay.origin.y = origin.y;
+  scratchRay.origin.z = origin.z;
+  scratchRay.dir.x = dx;
+  scratchRay.dir.y = dy;
+  scratchRay.dir.z = dz;
+  return scratchRay;
+}
+
+const scratchEye: Vec3Like = { x: 0, y: 0, z: 0 };
+const scratchOrigin: Vec3Like = { x: 0, y: 0, z: 0 };
+
+/**
+ * 경비병(발 위치, 수평 정면 방향)에서 플레이어 신체 샘플 지점으로 레이를 쏴 노출 비율을 구합니다.
+ * 샘플 높이는 캐릭터 체격/자세에 따라 넘기고, 경비병 자신의 강체는 exclude 로 넘겨 레이에서 제외합니다.
+ */
+export function sampleVisibility(
+  { world, rapier }: PhysicsQuery,
+  cone: VisionCone,
+  guard: Vec3Like,
+  forward: { x: number, z: number },
+  player: Vec3Like,
+  sampleHeights: readonly number[],
+  exclude?: RapierRigidBody
+): VisionSample {
+  const distance = Math.hypot(player.x - guard.x, player.y - guard.y, player.z - guard.z);
+  const heightDiff = Math.abs(player.y - guard.y);
+  const result = { distance, heightDiff, angle: 180, visibleFraction: 0 };
+  if (distance >= cone.viewDistance) return result;
+
+  const flatLength = Math.hypot(player.x - guard.x, player.z - guard.z);
+  const forwardLength = Math.hypot(forward.x, forward.z);
+  // 바로 위/아래처럼 수평 방향이 없으면 시야 밖으로 취급합니다.
+  if (flatLength < 1e-6 || forwardLength < 1e-6) return result;
+  const cos = ((player.x - guard.x) * forward.x + (player.z - guard.z) * forward.z) / (flatLength * forwardLength);
+  const angleFlat = Math.acos(Math.min(1, Math.max(-1, cos))) * 180 / Math.PI;
+  result.angle = angleFlat;
+  if (angleFlat >= cone.fov / 2) return result;
+
+  const eye = scratchEye;
+  eye.x = guard.x;
+  eye.y = guard.y + cone.eyeHeight;
+  eye.z = guard.z;
+  const dx = player.x - eye.x;
+  const dz = player.z - eye.z;
+
+  let visibleSamples = 0;
+  for (const heightOffset of sampleHeights) {
+    const dy = player.y + heightOffset - eye.y;
+    // 수직 시야각은 샘플마다 봅니다. 계단 위아래에서는 머리만, 또는 발만 시야에 들어올 수 있습니다.
+    const verticalAngle = Math.abs(Math.atan2(dy, flatLength)) * 180 / Math.PI;
+    if (verticalAngle >= cone.verticalFov) continue;
+    const exactDistToTarget = Math.hypot(dx, dy, dz);
+    const ray = aimRay(rapier, eye, dx / exactDistToTarget, dy / exactDistToTarget, dz / exactDistToTarget);
+
+    // 🚀 [핵심] 키네마틱 강체(캐릭터)와 센서(수풀/상호작용 범위 등)는 시야를 가리지 않습니다.
+    const flags = rapier.QueryFilterFlags.EXCLUDE_KINEMATIC | rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+    const hit = world.castRay(ray, exactDistToTarget, true, flags, undefined, undefined, exclude);
+
+    // 벽이 플레이어보다 가까이 있으면 차단됨
+    const hitDist = hit ? (hit as any).toi ?? (hit as any).timeOfImpact : Infinity;
+    if (hitDist >= exactDistToTarget - 0.2) visibleSamples++;
+  }
+  result.visibleFraction = visibleSamples / sampleHeights.length;
+  return result;
+}
+
+/**
+ * 시야 표시용 한 줄기: 수평 방향 (dirX, dirZ) 으로 수직 부채꼴(-verticalFov ~ +verticalFov) 레이를 쏴
+ * 시선이 닿는 가장 먼 수평 거리를 구합니다. 무릎 높이 벽 너머나 경사/계단 위아래도 다른 높이의 레이가 닿습니다.
+ */
+export function castVisionColumn(
+  { world, rapier }: PhysicsQuery,
+  cone: VisionCone,
+  eye: Vec3Like,
+  dirX: number,
+  dirZ: number,
+  pitchCount: number,
+  groups?: number,
+  exclude?: RapierRigidBody
+): number {
+  const flags = rapier.QueryFilterFlags.EXCLUDE_KINEMATIC | rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+  const maxPitch = cone.verticalFov * Math.PI / 180;
+  let reach = 0;
+  for (let i = 0; i < pitchCount; i++) {
+    const pitch = pitchCount > 1 ? -maxPitch + (2 * maxPitch * i) / (pitchCount - 1) : 0;
+    const cos = Math.cos(pitch);
+    const ray = aimRay(rapier, eye, dirX * cos, Math.sin(pitch), dirZ * cos);
+    const hit = world.castRay(ray, cone.viewDistance, true, flags, groups, undefined, exclude);
+    const hitDist = hit ? (hit as any).toi ?? (hit as any).timeOfImpact : cone.viewDistance;
+    reach = Math.max(reach, hitDist * cos);
+  }
+  return reach;
+}
+
+/** 시야 표시를 지형에 붙이기 위한 지면 높이. from 에서 maxDrop 만큼 아래로 쏴서 못 찾으면 null */
+export function groundHeightBelow({ world, rapier }: PhysicsQuery, from: Vec3Like, maxDrop: number, groups?: number, exclude?: RapierRigidBody) {
+  // 캐릭터/던진 돌 위로 올라타지 않도록 고정 콜라이더만 봅니다.
+  const flags = rapier.QueryFilterFlags.ONLY_FIXED | rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+  const hit = world.castRay(aimRay(rapier, from, 0, -1, 0), maxDrop, true, flags, groups, undefined, exclude);
+  if (!hit) return null;
+  return from.y - ((hit as any).toi ?? (hit as any).timeOfImpact);
+}
+
+/**
+ * 소리 차폐 검사: 두 지점 사이에 있는 벽 개수
+ * 레벨 트라이메시는 콜라이더 하나뿐이라, 맞은 지점 바로 뒤에서 레이를 다시 쏘며 표면을 세고 2로 나눕니다.
+ */
+export function countWallsBetween({ world, rapier }: PhysicsQuery, from: Vec3Like, to: Vec3Like, levelGroups: number) {
+  const total = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+  if (total < 0.01) return 0;
+  const dx = (to.x - from.x) / total;
+  const dy = (to.y - from.y) / total;
+  const dz = (to.z - from.z) / total;
+  // 고정 콜라이더만, 센서(수풀 등)는 제외
+  const flags = rapier.QueryFilterFlags.ONLY_FIXED | rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+
+  let travelled = 0;
+  let surfaces = 0;
+  while (travelled < total && surfaces < MAX_HEARING_SURFACES) {
+    scratchOrigin.x = from.x + dx * travelled;
+    scratchOrigin.y = from.y + dy * travelled;
+    scratchOrigin.z = from.z + dz * travelled;
+    const hit = world.castRay(aimRay(rapier, scratchOrigin, dx, dy, dz), total - travelled, false, flags, levelGroups);
+    if (!hit) break;
+    const hitDist = (hit as any).toi ?? (hit as any).timeOfImpact;
+    surfaces++;
+    travelled += hitDist + 0.05;
+  }
+  return Math.ceil(surfaces / 2);
+}
@@ -0,0 +1,95 @@
+// 🎚️ 경비병 지각 프로필
+// 시야는 세 단계로 나뉩니다.
+//   central     정면 좁은 범위. 들어오면 빠르게 발각(RED)
+//   mid         일반 시야(YELLOW). 거리에 따라 천천히 차오름
+//   peripheral  넓은 주변 시야. 움직이는 대상만 알아챔
+// 경비병은 레벨 데이터의 perception 으로 프로필을 고르고, 값은 leva 에서 실시간으로 조정할 수 있습니다.
+
+import type { VisionCone } from './perception';
+
+export type PerceptionProfileId = 'rookie' | 'veteran' | 'sniper' | 'camera';
+
+export interface VisionTier {
+  fov: number;              // 수평 시야각 (도)
+  distance: number;
+}
+
+export interface PerceptionProfile {
+  central: VisionTier;
+  mid: VisionTier;
+  peripheral: VisionTier;
+  verticalFov: number;      // 수직 허용 각 (도)
+  eyeHeight: number;        // 발(카메라는 설치 지점) 기준 눈 높이
+  heightThreshold: number;  // 이보다 높이 차가 크면 central 이어도 RED 로 보지 않음
+}
+
+export const PERCEPTION_PROFILE_IDS: PerceptionProfileId[] = ['rookie', 'veteran', 'sniper', 'camera'];
+export const DEFAULT_PERCEPTION_PROFILE: PerceptionProfileId = 'veteran';
+
+export const PERCEPTION_PROFILES: Record<PerceptionProfileId, PerceptionProfile> = {
+  rookie: {
+    central: { fov: 40, distance: 5 },
+    mid: { fov: 60, distance: 9 },
+    peripheral: { fov: 110, distance: 5 },
+    verticalFov: 30,
+    eyeHeight: 1.7,
+    heightThreshold: 3,
+  },
+  veteran: {
+    central: { fov: 60, distance: 7 },
+    mid: { fov: 60, distance: 10 },
+    peripheral: { fov: 140, distance: 7 },
+    verticalFov: 30,
+    eyeHeight: 1.7,
+    heightThreshold: 3,
+  },
+  // 멀리, 좁게 봅니다. 높은 곳에 세워 두는 용도라 높이 차에 관대합니다.
+  sniper: {
+    central: { fov: 20, distance: 12 },
+    mid: { fov: 35, distance: 20 },
+    peripheral: { fov: 90, distance: 6 },
+    verticalFov: 45,
+    eyeHeight: 1.7,
+    heightThreshold: 8,
+  },
+  camera: {
+    central: { fov: 30, distance: 8 },
+    mid: { fov: 50, distance: 14 },
+    peripheral: { fov: 70, distance: 10 },
+    verticalFov: 60,
+    eyeHeight: 0,
+    heightThreshold: 8,
+  },
+};
+
+// "constructor" 같은 상속 키를 프로필로 받아들이지 않도록 자기 키만 봅니다.
+export const isPerceptionProfileId = (value: unknown): value is PerceptionProfileId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERCEPTION_PROFILES, value);
+
+const TIERS = ['central', 'mid', 'peripheral'] as const;
+const outerCones = new WeakMap<PerceptionProfile, VisionCone>();
+
+/** 모든 단계를 감싸는 바깥 시야 (레이 판정 범위) */
+export function outerVisionCone(profile: PerceptionProfile): VisionCone {
+  // 프로필은 바꿀 때마다 새 객체로 교체하므로, 경비병들이 매 틱 부르는 동안은 같은 결과를 돌려씁니다.
+  let cone = outerCones.get(profile);
+  if (!cone) {
+    cone = {
+      fov: Math.max(...TIERS.map((tier) => profile[tier].fov)),
+      viewDistance: Math.max(...TIERS.map((tier) => profile[tier].distance)),
+      verticalFov: profile.verticalFov,
+      eyeHeight: profile.eyeHeight,
+    };
+    outerCones.set(profile, cone);
+  }
+  return cone;
+}
+
+/** 각 단계의 시야각과 거리에 배수를 곱한 프로필 */
+export function scaleProfile(profile: PerceptionProfile, fovScale: number, distanceScale: number): PerceptionProfile {
+  const scaled = { ...profile };
+  for (const tier of TIERS) {
+    scaled[tier] = { fov: profile[tier].fov * fovScale, distance: profile[tier].distance * distanceScale };
+  }
+  return scaled;
+}
@@ -0,0 +1,109 @@
+// 🗓️ 지각 스케줄러
+// 시야 표시처럼 레이를 많이 쏘는 작업을 한곳에 모아, 프레임당 레이 예산 안에서 돌아가며 나눠 실행합니다.
+// 관찰자(조작 중인 캐릭터)와 가까운 작업일수록 레이를 촘촘히, 자주 갱신하고 멀면 숨깁니다 (거리 LOD).
+// 감지 판정(sampleVisibility)은 리플레이 결정성을 위해 고정 틱에서 그대로 돌고, 여기서는 렌더용 작업만 다룹니다.
+
+import type { Vec3Like } from './guardBrain';
+
+export interface PerceptionLod {
+  maxDistance: number;
+  columnStride: number;     // 이 간격의 방향만 레이를 쏘고 사이는 보간
+  interval: number;         // 몇 프레임마다 갱신할지
+}
+
+export const PERCEPTION_LODS: PerceptionLod[] = [
+  { maxDistance: 15, columnStride: 1, interval: 1 },
+  { maxDistance: 30, columnStride: 2, interval: 2 },
+  { maxDistance: 60, columnStride: 4, interval: 4 },
+];
+
+export const PERCEPTION_BUDGET = {
+  raysPerFrame: 6000,       // 넘으면 남은 작업은 다음 프레임으로 (가장 오래 기다린 작업부터 실행)
+};
+
+export interface PerceptionJob {
+  /** 작업 위치를 out 에 씁니다 (할당 없이). */
+  readPosition: (out: Vec3Like) => void;
+  /** 갱신하고 쏜 레이 수를 돌려줍니다. */
+  run: (lod: PerceptionLod) => number;
+  /** LOD 범위 밖으로 나갔을 때 */
+  hide: () => void;
+}
+
+interface JobEntry {
+  job: PerceptionJob;
+  lastRun: number;          // 마지막으로 실행한 프레임
+  hidden: boolean;
+  lod: PerceptionLod | null;
+}
+
+export interface PerceptionStats {
+  frame: number;
+  jobs: number;
+  ran: number;              // 이번 프레임에 갱신한 작업 수
+  deferred: number;         // 차례가 됐지만 예산 때문에 미룬 작업 수
+  rays: number;
+}
+
+// 오버레이가 읽어 가는 마지막 프레임 통계 (매 프레임 같은 객체를 갱신)
+export const perceptionStats: PerceptionStats = { frame: 0, jobs: 0, ran: 0, deferred: 0, rays: 0 };
+
+const entries: JobEntry[] = [];
+const due: JobEntry[] = [];
+const scratch: Vec3Like = { x: 0, y: 0, z: 0 };
+
+/** 등록 해제 함수를 돌려주므로 useEffect 의 cleanup 으로 그대로 쓸 수 있습니다. */
+export function registerPerceptionJob(job: PerceptionJob) {
+  const entry: JobEntry = { job, lastRun: -Infinity, hidden: false, lod: null };
+  entries.push(entry);
+  return () => {
+    const index = entries.indexOf(entry);
+    if (index >= 0) entries.splice(index, 1);
+  };
+}
+
+const pickLod = (distance: number) => {
+  for (const lod of PERCEPTION_LODS) if (distance <= lod.maxDistance) return lod;
+  return null;
+};
+
+// 오래 기다린 작업부터
+const byStaleness = (a: JobEntry, b: JobEntry) => a.lastRun - b.lastRun;
+
+/** 렌더 프레임마다 한 번 호출합니다. */
+export function runPerceptionFrame(observer: Vec3Like, budget = PERCEPTION_BUDGET.raysPerFrame): PerceptionStats {
+  const frame = ++perceptionStats.frame;
+  due.length = 0;
+
+  for (const entry of entries) {
+    entry.job.readPosition(scratch);
+    const lod = pickLod(Math.hypot(scratch.x - observer.x, scratch.y - observer.y, scratch.z - observer.z));
+    if (!lod) {
+      if (!entry.hidden) entry.job.hide();
+      entry.hidden = true;
+      entry.lod = null;
+      continue;
+    }
+    // 막 보이게 된 작업이나 LOD 가 바뀐 작업은 바로 갱신합니다.
+    if (entry.hidden || entry.lod !== lod || frame - entry.lastRun >= lod.interval) due.push(entry);
+    entry.lod = lod;
+  }
+
+  due.sort(byStaleness);
+  let rays = 0;
+  let ran = 0;
+  for (const entry of due) {
+    // 예산이 모자라도 프레임마다 최소 하나는 진행합니다.
+    if (ran > 0 && rays >= budget) break;
+    rays += entry.job.run(entry.lod!);
+    entry.lastRun = frame;
+    entry.hidden = false;
+    ran++;
+  }
+
+  perceptionStats.jobs = entries.length;
+  perceptionStats.ran = ran;
+  perceptionStats.deferred = due.length - ran;
+  perceptionStats.rays = rays;
+  return perceptionStats;
+}
@@ -0,0 +1,28 @@
+// 🧪 은밀 제압 판정
+
+import { describe, expect, it } from 'vitest';
+import { canTakedown } from './takedown';
+import type { GuardMode } from './guardBrain';
+
+// 경비병은 +z 를 보고, 플레이어는 바로 뒤 0.8m 에 붙어 있습니다.
+const GUARD = { x: 0, y: 0, z: 0 };
+const FORWARD = { x: 0, z: 1 };
+const BEHIND = { x: 0, y: 0, z: -0.8 };
+const FOV = 60;
+
+describe('canTakedown', () => {
+  it('allows a takedown from behind an unaware guard', () => {
+    const unaware: GuardMode[] = ['patrol', 'investigate', 'search', 'return'];
+    for (const mode of unaware) expect(canTakedown(mode, GUARD, FORWARD, BEHIND, FOV)).toBe(true);
+  });
+
+  it('refuses guards that are already aware, including one running to an alarm panel', () => {
+    const aware: GuardMode[] = ['suspicious', 'alerted', 'alarm', 'unconscious'];
+    for (const mode of aware) expect(canTakedown(mode, GUARD, FORWARD, BEHIND, FOV)).toBe(false);
+  });
+
+  it('refuses from the front or out of reach', () => {
+    expect(canTakedown('patrol', GUARD, FORWARD, { x: 0, y: 0, z: 0.8 }, FOV)).toBe(false);
+    expect(canTakedown('patrol', GUARD, FORWARD, { x: 0, y: 0, z: -2 }, FOV)).toBe(false);
+  });
+});
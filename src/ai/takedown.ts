@@ -0,0 +1,32 @@
+// 🥷 은밀 제압 판정
+// 경계하지 않은 경비병에게 시야각 밖 뒤쪽에서 가까이 붙었을 때만 제압할 수 있습니다.
+
+import type { GuardMode, Vec3Like } from './guardBrain';
+
+export const TAKEDOWN = {
+  range: 1.2,               // 수평 거리
+  maxHeightDiff: 0.8,
+  minBehindAngle: 110,      // 정면에서 이 각도(도) 이상 벗어나야 "뒤"
+};
+
+// 이미 플레이어를 의식하고 있는 경비병(경보 패널로 달려가는 중 포함)은 제압할 수 없습니다.
+const AWARE_MODES: GuardMode[] = ['suspicious', 'alerted', 'alarm', 'unconscious'];
+
+export function canTakedown(
+  mode: GuardMode,
+  guard: Vec3Like,
+  forward: { x: number, z: number },
+  player: Vec3Like,
+  fov: number
+): boolean {
+  if (AWARE_MODES.includes(mode)) return false;
+  const dx = player.x - guard.x;
+  const dz = player.z - guard.z;
+  const distance = Math.hypot(dx, dz);
+  const forwardLength = Math.hypot(forward.x, forward.z);
+  if (distance > TAKEDOWN.range || distance < 1e-6 || forwardLength < 1e-6) return false;
+  if (Math.abs(player.y - guard.y) > TAKEDOWN.maxHeightDiff) return false;
+  const cos = (dx * forward.x + dz * forward.z) / (distance * forwardLength);
+  const angle = Math.acos(Math.min(1, Math.max(-1, cos))) * 180 / Math.PI;
+  return angle >= Math.max(fov / 2, TAKEDOWN.minBehindAngle);
+}
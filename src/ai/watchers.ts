@@ -0,0 +1,80 @@
+// 📹 고정 감시자 (보안 카메라 / 보초)
+// 움직이지 않고 고개(요)만 돌리는 감시자의 조준 로직입니다. 감지/경계 판단은 경비병과 같은 guardBrain 을 씁니다.
+// 요 각도는 라디안, +Z 방향이 0 이고 +X 방향이 π/2 입니다 (Object3D.rotation.y 와 같음).
+
+import type { Vec3Like } from './guardBrain';
+import type { SecurityCameraSpawn, SentryLookAt } from '../level/levelData';
+
+export const WATCHER = {
+  trackSpeed: 90,           // 플레이어나 마지막 목격 지점을 따라 돌리는 속도 (도/초)
+  sentryTurnSpeed: 120,     // 보초가 다음 지점으로 고개를 돌리는 속도 (도/초)
+};
+
+const DEG = Math.PI / 180;
+
+/** 두 요 각도의 차이 (-π ~ π) */
+const yawDelta = (from: number, to: number) => Math.atan2(Math.sin(to - from), Math.cos(to - from));
+
+export const yawTowards = (from: Vec3Like, to: Vec3Like) => Math.atan2(to.x - from.x, to.z - from.z);
+
+/** yaw 에서 target 쪽으로 최대 maxStep 만큼 돌린 각도 */
+export function turnYaw(yaw: number, target: number, maxStep: number): number {
+  const delta = yawDelta(yaw, target);
+  return Math.abs(delta) <= maxStep ? target : yaw + Math.sign(delta) * maxStep;
+}
+
+export interface SweepState {
+  yaw: number;
+  direction: 1 | -1;
+  pauseRemaining: number;
+}
+
+export const createSweepState = ({ yawMin }: SecurityCameraSpawn): SweepState => ({
+  yaw: yawMin * DEG,
+  direction: 1,
+  pauseRemaining: 0,
+});
+
+/** 카메라를 yawMin ~ yawMax 사이로 왕복시키고, 양 끝에서 pause 초 멈춥니다. */
+export function stepCameraSweep(state: SweepState, camera: SecurityCameraSpawn, dt: number) {
+  const min = camera.yawMin * DEG;
+  const max = camera.yawMax * DEG;
+  // 추적하다 범위 밖으로 돌아갔으면 가까운 쪽으로 먼저 돌아옵니다.
+  if (state.yaw < min || state.yaw > max) {
+    const edge = Math.abs(yawDelta(state.yaw, min)) < Math.abs(yawDelta(state.yaw, max)) ? min : max;
+    state.yaw = turnYaw(state.yaw, edge, camera.sweepSpeed * DEG * dt);
+    return;
+  }
+  if (state.pauseRemaining > 0) {
+    state.pauseRemaining = Math.max(0, state.pauseRemaining - dt);
+    return;
+  }
+  state.yaw += state.direction * camera.sweepSpeed * DEG * dt;
+  if (state.yaw >= max || state.yaw <= min) {
+    state.yaw = Math.min(max, Math.max(min, state.yaw));
+    state.direction = state.direction === 1 ? -1 : 1;
+    state.pauseRemaining = camera.pause;
+  }
+}
+
+export interface LookScheduleState {
+  index: number;
+  remaining: number;        // 현재 지점을 더 바라볼 시간 (돌아보는 중에도 흐름)
+}
+
+export const createLookSchedule = (lookAt: SentryLookAt[]): LookScheduleState => ({
+  index: 0,
+  remaining: lookAt[0]?.duration ?? 0,
+});
+
+/** 시간이 다 되면 다음 지점으로 넘어가고, 지금 바라볼 지점을 돌려줍니다. */
+export function stepLookSchedule(state: LookScheduleState, lookAt: SentryLookAt[], dt: number): SentryLookAt | null {
+  if (lookAt.length === 0) return null;
+  if (state.index >= lookAt.length) state.index = 0;
+  state.remaining -= dt;
+  if (state.remaining <= 0) {
+    state.index = (state.index + 1) % lookAt.length;
+    state.remaining = lookAt[state.index].duration;
+  }
+  return lookAt[state.index];
+}
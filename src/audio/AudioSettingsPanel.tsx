@@ -0,0 +1,33 @@
+import { useControls } from 'leva';
+import { useGameStore } from '../store';
+import { AudioSettings, saveAudioSettings } from './audioSettings';
+
+// 🔊 음량 / 음소거 패널. 바꾸면 바로 저장됩니다.
+
+const applyAudioSettings = (patch: Partial<AudioSettings>) => {
+  const settings = { ...useGameStore.getState().audioSettings, ...patch };
+  saveAudioSettings(settings);
+  useGameStore.getState().setAudioSettings(settings);
+};
+
+export const AudioSettingsPanel = () => {
+  // 저장된 값으로 시작하고, 처음 한 번 불리는 onChange(initial) 는 건너뜁니다.
+  const saved = useGameStore.getState().audioSettings;
+
+  useControls('Audio', {
+    volume: {
+      value: saved.volume, min: 0, max: 1, step: 0.05, label: 'Volume',
+      onChange: (volume: number, _: string, { initial }: { initial: boolean }) => { if (!initial) applyAudioSettings({ volume }); },
+    },
+    musicVolume: {
+      value: saved.musicVolume, min: 0, max: 1, step: 0.05, label: 'Music',
+      onChange: (musicVolume: number, _: string, { initial }: { initial: boolean }) => { if (!initial) applyAudioSettings({ musicVolume }); },
+    },
+    muted: {
+      value: saved.muted, label: 'Mute',
+      onChange: (muted: boolean, _: string, { initial }: { initial: boolean }) => { if (!initial) applyAudioSettings({ muted }); },
+    },
+  }, { collapsed: true });
+
+  return null;
+};
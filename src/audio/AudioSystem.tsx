@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Audio, AudioContext as ThreeAudioContext, AudioListener, Group } from 'three';
+import { useGameStore } from '../store';
+import { AUDIO, MUSIC_LAYERS, MusicMood, attachAudioOutput, loadAudioBuffer, musicMoodOf, playSound, preloadSounds } from './audio';
+
+const MOODS = Object.keys(MUSIC_LAYERS) as MusicMood[];
+
+// 🔊 오디오: 리스너를 조작 중인 캐릭터 머리에 두고 카메라 방향으로 돌려 화면 좌우와 소리 좌우를 맞춥니다.
+// 음악 층 섞기, 경보 스팅어, 음량/음소거 적용도 여기서 합니다. Canvas 안에 하나만 둡니다.
+export const AudioSystem = () => {
+  const camera = useThree((state) => state.camera);
+  const root = useRef<Group>(null);
+  const listener = useMemo(() => new AudioListener(), []);
+  const settings = useGameStore((state) => state.audioSettings);
+  const music = useRef<Partial<Record<MusicMood, Audio>>>({});
+  const musicGains = useRef<Record<MusicMood, number>>({ stealth: 1, suspicious: 0, combat: 0 });
+
+  useEffect(() => {
+    if (!root.current) return;
+    root.current.add(listener);
+    const detach = attachAudioOutput({ listener, root: root.current });
+    preloadSounds();
+
+    // 브라우저는 사용자 입력 전에는 소리를 막으므로 첫 입력에 컨텍스트를 깨웁니다.
+    const resume = () => {
+      const context = ThreeAudioContext.getContext();
+      if (context.state === 'suspended') context.resume();
+    };
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+
+    // 음악 층은 모두 불러온 뒤 한꺼번에 틀어 박자를 맞춥니다. 실패한 층은 빠집니다.
+    let cancelled = false;
+    const layers = music.current;
+    Promise.all(MOODS.map((mood) => loadAudioBuffer(MUSIC_LAYERS[mood].url))).then((buffers) => {
+      if (cancelled) return;
+      buffers.forEach((buffer, i) => {
+        if (!buffer) return;
+        const layer = new Audio(listener);
+        layer.setBuffer(buffer);
+        layer.setLoop(true);
+        layer.setVolume(0);
+        layers[MOODS[i]] = layer;
+      });
+      for (const mood of MOODS) layers[mood]?.play();
+    });
+
+    return () => {
+      cancelled = true;
+      for (const mood of MOODS) {
+        const layer = layers[mood];
+        if (layer?.isPlaying) layer.stop();
+        delete layers[mood];
+      }
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+      detach();
+      listener.removeFromParent();
+    };
+  }, [listener]);
+
+  // 🚨 전역 경보로 바뀌는 순간 스팅어
+  useEffect(() => useGameStore.subscribe((state, previous) => {
+    if (state.isAlerted && !previous.isAlerted) playSound('alertStinger');
+  }), []);
+
+  useEffect(() => {
+    listener.setMasterVolume(settings.muted ? 0 : settings.volume);
+  }, [listener, settings.muted, settings.volume]);
+
+  useFrame((_, delta) => {
+    const { playerPosition, guardStates, isAlerted, audioSettings } = useGameStore.getState();
+    listener.position.set(playerPosition.x, playerPosition.y + AUDIO.listenerHeight, playerPosition.z);
+    listener.quaternion.copy(camera.quaternion);
+
+    const mood = musicMoodOf(guardStates, isAlerted);
+    const step = Math.min(1, delta / AUDIO.crossfadeTime);
+    for (const layer of MOODS) {
+      const target = layer === mood ? 1 : 0;
+      const gain = musicGains.current[layer];
+      musicGains.current[layer] = gain + Math.max(-step, Math.min(step, target - gain));
+      music.current[layer]?.setVolume(musicGains.current[layer] * MUSIC_LAYERS[layer].volume * audioSettings.musicVolume);
+    }
+  });
+
+  return <group ref={root} />;
+};
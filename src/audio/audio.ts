@@ -0,0 +1,145 @@
+// 🔊 소리 목록 / 불러오기 / 재생
+// 소리 파일은 Suspense 밖에서 따로 불러옵니다. 없거나 깨진 파일은 경고만 남기고 그 소리만 조용히 건너뜁니다.
+// 재생은 AudioSystem 이 붙여 둔 리스너와 씬 루트가 있을 때만 합니다 (없으면 아무 일도 하지 않음).
+
+import { Audio, AudioListener, AudioLoader, Object3D, PositionalAudio } from 'three';
+import type { GuardMode, Vec3Like } from '../ai/guardBrain';
+import type { NoiseKind } from '../ai/hearing';
+import type { PlayerAnimation } from '../player/playerMotor';
+
+export type SoundId = 'stepWalk' | 'stepRun' | 'stepCrouch' | 'jump' | 'land' | 'guardBark' | 'alertStinger';
+export type MusicMood = 'stealth' | 'suspicious' | 'combat';
+
+interface SoundDefinition {
+  url: string;
+  volume: number;
+  refDistance: number;      // 이 거리까지는 원래 음량 (위치 소리만)
+}
+
+export const SOUNDS: Record<SoundId, SoundDefinition> = {
+  stepWalk: { url: '/audio/step_walk.ogg', volume: 0.5, refDistance: 3 },
+  stepRun: { url: '/audio/step_run.ogg', volume: 0.8, refDistance: 4 },
+  stepCrouch: { url: '/audio/step_crouch.ogg', volume: 0.25, refDistance: 2 },
+  jump: { url: '/audio/jump.ogg', volume: 0.6, refDistance: 4 },
+  land: { url: '/audio/land.ogg', volume: 0.8, refDistance: 4 },
+  guardBark: { url: '/audio/guard_bark.ogg', volume: 1, refDistance: 8 },
+  alertStinger: { url: '/audio/alert_stinger.ogg', volume: 0.9, refDistance: 0 },
+};
+
+// 같은 길이의 음악 층을 한꺼번에 돌려 두고 상황에 맞는 층만 들리게 섞습니다.
+export const MUSIC_LAYERS: Record<MusicMood, SoundDefinition> = {
+  stealth: { url: '/audio/music_stealth.ogg', volume: 0.8, refDistance: 0 },
+  suspicious: { url: '/audio/music_suspicious.ogg', volume: 0.9, refDistance: 0 },
+  combat: { url: '/audio/music_combat.ogg', volume: 1, refDistance: 0 },
+};
+
+export const AUDIO = {
+  crossfadeTime: 1.5,       // 음악 층 전환 시간 (초)
+  maxVoices: 24,            // 동시에 울리는 효과음 수 상한
+  listenerHeight: 1.5,      // 리스너는 조작 중인 캐릭터 머리 높이에 둡니다
+};
+
+// --- 📦 불러오기 ---
+
+const loader = new AudioLoader();
+const pending = new Map<string, Promise<AudioBuffer | null>>();
+const loaded = new Map<string, AudioBuffer>();
+
+/** 실패하면 null 로 끝나는 Promise. 같은 파일은 한 번만 요청합니다. */
+export function loadAudioBuffer(url: string): Promise<AudioBuffer | null> {
+  let request = pending.get(url);
+  if (!request) {
+    request = loader.loadAsync(url).then(
+      (buffer) => {
+        loaded.set(url, buffer);
+        return buffer;
+      },
+      (e) => {
+        console.warn(`🔊 Failed to load ${url}:`, e instanceof Error ? e.message : e);
+        return null;
+      }
+    );
+    pending.set(url, request);
+  }
+  return request;
+}
+
+export function preloadSounds() {
+  for (const { url } of Object.values(SOUNDS)) loadAudioBuffer(url);
+}
+
+// --- 🎧 출력 ---
+
+export interface AudioOutput {
+  listener: AudioListener;
+  root: Object3D;           // 위치 소리를 붙일 씬 노드
+}
+
+let output: AudioOutput | null = null;
+let voices = 0;
+
+export function attachAudioOutput(next: AudioOutput) {
+  output = next;
+  return () => {
+    if (output === next) output = null;
+  };
+}
+
+function startVoice(voice: Audio<AudioNode>, sound: SoundDefinition, buffer: AudioBuffer, volume: number) {
+  voices++;
+  voice.setBuffer(buffer);
+  voice.setVolume(sound.volume * volume);
+  voice.onEnded = () => {
+    voice.isPlaying = false;
+    voice.removeFromParent();
+    voice.disconnect();
+    voice.gain.disconnect();
+    voices--;
+  };
+  voice.play();
+}
+
+/** 월드 위치에서 한 번 울립니다. 아직 불러오지 못했거나 실패한 소리는 건너뜁니다. */
+export function playSoundAt(id: SoundId, position: Vec3Like, volume = 1) {
+  const sound = SOUNDS[id];
+  const buffer = loaded.get(sound.url);
+  if (!output || !buffer || voices >= AUDIO.maxVoices) return;
+  const voice = new PositionalAudio(output.listener);
+  voice.setRefDistance(sound.refDistance);
+  voice.position.set(position.x, position.y, position.z);
+  output.root.add(voice);
+  startVoice(voice, sound, buffer, volume);
+}
+
+/** 위치 없이 (UI / 스팅어) 한 번 울립니다. */
+export function playSound(id: SoundId, volume = 1) {
+  const sound = SOUNDS[id];
+  const buffer = loaded.get(sound.url);
+  if (!output || !buffer || voices >= AUDIO.maxVoices) return;
+  const voice = new Audio(output.listener);
+  output.root.add(voice);
+  startVoice(voice, sound, buffer, volume);
+}
+
+// --- 🎚️ 상황 판단 ---
+
+/** 캐릭터 이동 소음에 맞는 효과음. 발소리는 웅크림 / 걷기 / 달리기로 나뉩니다. */
+export function motorSound(kind: NoiseKind, animation: PlayerAnimation, crouched: boolean): SoundId | null {
+  switch (kind) {
+    case 'footstep':
+      return crouched ? 'stepCrouch' : animation === 'Run' ? 'stepRun' : 'stepWalk';
+    case 'jump':
+      return 'jump';
+    case 'land':
+      return 'land';
+    default:
+      return null;
+  }
+}
+
+/** 전역 경보면 전투, 의심/조사/수색 중인 경비병이 있으면 긴장, 아니면 잠입 음악 */
+export function musicMoodOf(guardStates: Record<string, GuardMode>, isAlerted: boolean): MusicMood {
+  if (isAlerted) return 'combat';
+  const modes = Object.values(guardStates);
+  return modes.some((mode) => mode === 'suspicious' || mode === 'investigate' || mode === 'search') ? 'suspicious' : 'stealth';
+}
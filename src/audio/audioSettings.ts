@@ -0,0 +1,39 @@
+// 🔊 음량 / 음소거 설정 저장
+// 키 바인딩과 같은 방식으로 localStorage 에 버전과 함께 저장하고, 형식이 틀린 항목은 기본값을 씁니다.
+
+export const AUDIO_SETTINGS_VERSION = 1;
+export const AUDIO_SETTINGS_STORAGE_KEY = 'r3f-shadow:audio';
+
+export interface AudioSettings {
+  volume: number;           // 전체 음량 0 ~ 1
+  musicVolume: number;      // 음악 음량 0 ~ 1 (전체 음량에 곱해짐)
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.8, musicVolume: 0.5, muted: false };
+
+const isUnit = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+export function loadAudioSettings(storage: Storage = localStorage): AudioSettings {
+  const settings = { ...DEFAULT_AUDIO_SETTINGS };
+  try {
+    const raw = storage.getItem(AUDIO_SETTINGS_STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : null;
+    if (data?.version === AUDIO_SETTINGS_VERSION) {
+      if (isUnit(data.volume)) settings.volume = data.volume;
+      if (isUnit(data.musicVolume)) settings.musicVolume = data.musicVolume;
+      if (typeof data.muted === 'boolean') settings.muted = data.muted;
+    }
+  } catch (e) {
+    console.warn('🔊 Failed to read audio settings:', (e as Error).message);
+  }
+  return settings;
+}
+
+export function saveAudioSettings(settings: AudioSettings, storage: Storage = localStorage) {
+  try {
+    storage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify({ version: AUDIO_SETTINGS_VERSION, ...settings }));
+  } catch (e) {
+    console.warn('🔊 Failed to write audio settings:', (e as Error).message);
+  }
+}
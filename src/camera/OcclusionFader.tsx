@@ -0,0 +1,85 @@
+import { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Material, Mesh, Object3D, Raycaster, Vector3 } from 'three';
+import { useGameStore } from '../store';
+
+export const OCCLUSION = {
+  fadedOpacity: 0.2,
+  fadeRate: 10,             // 투명해지고 돌아오는 속도 (1/초)
+  sampleHeights: [0.5, 1.5],// 캐릭터 발 기준으로 가려졌는지 볼 높이
+  playerClearance: 0.5,     // 캐릭터 바로 앞 표면(바닥 턱 등)은 무시
+};
+
+interface FadedMesh {
+  original: Material | Material[];
+  faded: Material[];
+  opacity: number;
+}
+
+const cloneForFade = (material: Material) => {
+  const faded = material.clone();
+  faded.transparent = true;
+  faded.depthWrite = false;
+  return faded;
+};
+
+// 👻 카메라와 조작 중인 캐릭터 사이의 레벨 메시를 반투명하게 합니다.
+// 재질은 가릴 때만 복제해 바꿔 끼우고, 다시 불투명해지면 원래 재질로 돌려놓습니다.
+// 벽 너머 캐릭터 실루엣(PlayerVisuals 의 고스트 패스)과 함께 쓰면 가려진 동안에도 위치가 보입니다.
+export const OcclusionFader = ({ root, enabled }: { root: Object3D, enabled: boolean }) => {
+  const { camera } = useThree();
+  const raycaster = useMemo(() => new Raycaster(), []);
+  const faded = useMemo(() => new Map<Mesh, FadedMesh>(), []);
+  const occluders = useMemo(() => new Set<Mesh>(), []);
+  const eye = useMemo(() => new Vector3(), []);
+  const point = useMemo(() => new Vector3(), []);
+
+  const restore = (mesh: Mesh, entry: FadedMesh) => {
+    mesh.material = entry.original;
+    for (const material of entry.faded) material.dispose();
+    faded.delete(mesh);
+  };
+
+  // 꺼지거나 레벨이 바뀌면 모두 원래대로
+  useEffect(() => () => {
+    for (const [mesh, entry] of faded) restore(mesh, entry);
+  }, [root, enabled]);
+
+  useFrame((_, delta) => {
+    if (!enabled) return;
+    const { playerPosition } = useGameStore.getState();
+
+    occluders.clear();
+    camera.getWorldPosition(eye);
+    for (const height of OCCLUSION.sampleHeights) {
+      point.set(playerPosition.x, playerPosition.y + height, playerPosition.z);
+      const distance = eye.distanceTo(point);
+      raycaster.set(eye, point.sub(eye).normalize());
+      raycaster.far = distance - OCCLUSION.playerClearance;
+      for (const hit of raycaster.intersectObject(root, true)) {
+        if ((hit.object as Mesh).isMesh && hit.object.visible) occluders.add(hit.object as Mesh);
+      }
+    }
+
+    for (const mesh of occluders) {
+      if (faded.has(mesh)) continue;
+      const original = mesh.material;
+      const materials = (Array.isArray(original) ? original : [original]).map(cloneForFade);
+      faded.set(mesh, { original, faded: materials, opacity: 1 });
+      mesh.material = Array.isArray(original) ? materials : materials[0];
+    }
+
+    const t = 1 - Math.exp(-OCCLUSION.fadeRate * delta);
+    for (const [mesh, entry] of faded) {
+      const target = occluders.has(mesh) ? OCCLUSION.fadedOpacity : 1;
+      entry.opacity += (target - entry.opacity) * t;
+      if (target === 1 && entry.opacity > 0.99) {
+        restore(mesh, entry);
+        continue;
+      }
+      for (const material of entry.faded) material.opacity = entry.opacity;
+    }
+  });
+
+  return null;
+};
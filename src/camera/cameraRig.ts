@@ -0,0 +1,98 @@
+// 🎥 아이소메트릭 카메라 리그
+// 조작 중인 캐릭터를 감쇠 추적하고, 이동 방향으로 조금 앞서 보며, 경보 중에는 줌을 물려 더 넓게 보여줍니다.
+// 시점은 90도 단위로 돌릴 수 있고, 이동 입력도 같은 방향(cameraViewYaw)을 기준으로 바뀝니다.
+// 렌더 프레임 전용이라 틱 결정성과는 무관합니다 (방향 전환 자체는 틱 입력으로 스토어에 반영).
+
+import type { Vec3Like } from '../ai/guardBrain';
+
+export const CAMERA_RIG = {
+  distance: 40,
+  zoom: 84,
+  alertZoom: 64,            // 경보 중 (작을수록 넓게 보임)
+  elevation: Math.asin(1 / Math.sqrt(3)),   // 정통 아이소메트릭 (약 35.26도)
+  followRate: 6,            // 감쇠 추적 속도 (1/초, 지수 감쇠)
+  lookAhead: 2.5,           // 달리기 속도일 때 앞서 보는 거리 (m)
+  lookAheadSpeed: 4.6,      // 이 속도에서 lookAhead 만큼 앞섭니다
+  lookAheadRate: 2.5,
+  zoomRate: 2,
+  turnRate: 8,              // 시점 회전 보간 속도
+};
+
+export const CAMERA_HEADINGS = 4;
+
+/** 시점 번호(0 ~ 3) → 카메라가 캐릭터를 바라보는 반대 방향(카메라 쪽)의 수평 각도. 0 이면 +X+Z 쪽 45도. */
+export const cameraViewYaw = (heading: number) => Math.PI / 4 + (heading * Math.PI) / 2;
+
+export const nextCameraHeading = (heading: number, step: number) =>
+  (((heading + step) % CAMERA_HEADINGS) + CAMERA_HEADINGS) % CAMERA_HEADINGS;
+
+export interface CameraRigState {
+  focus: Vec3Like | null;   // 감쇠 추적 중인 캐릭터 위치 (첫 프레임에 바로 맞춥니다)
+  lookAhead: { x: number, z: number };
+  zoom: number;
+  yaw: number;
+}
+
+export function createCameraRigState(heading = 0, rig = CAMERA_RIG): CameraRigState {
+  return { focus: null, lookAhead: { x: 0, z: 0 }, zoom: rig.zoom, yaw: cameraViewYaw(heading) };
+}
+
+export interface CameraRigInput {
+  heading: number;
+  alerted: boolean;
+}
+
+const damp = (rate: number, delta: number) => 1 - Math.exp(-rate * delta);
+
+// 가장 짧은 쪽으로 돌도록 -π ~ π 로 접습니다.
+const wrapAngle = (angle: number) => angle - 2 * Math.PI * Math.floor((angle + Math.PI) / (2 * Math.PI));
+
+/** 한 프레임 진행합니다. target 은 캐릭터 위치, velocity 는 현재 속도입니다. */
+export function stepCameraRig(
+  state: CameraRigState,
+  target: Vec3Like,
+  velocity: { x: number, z: number },
+  input: CameraRigInput,
+  delta: number,
+  rig = CAMERA_RIG
+) {
+  if (!state.focus) {
+    state.focus = { x: target.x, y: target.y, z: target.z };
+  } else {
+    const t = damp(rig.followRate, delta);
+    state.focus.x += (target.x - state.focus.x) * t;
+    state.focus.y += (target.y - state.focus.y) * t;
+    state.focus.z += (target.z - state.focus.z) * t;
+  }
+
+  const ahead = rig.lookAhead / rig.lookAheadSpeed;
+  const a = damp(rig.lookAheadRate, delta);
+  state.lookAhead.x += (velocity.x * ahead - state.lookAhead.x) * a;
+  state.lookAhead.z += (velocity.z * ahead - state.lookAhead.z) * a;
+  const length = Math.hypot(state.lookAhead.x, state.lookAhead.z);
+  if (length > rig.lookAhead) {
+    state.lookAhead.x *= rig.lookAhead / length;
+    state.lookAhead.z *= rig.lookAhead / length;
+  }
+
+  const zoom = input.alerted ? rig.alertZoom : rig.zoom;
+  state.zoom += (zoom - state.zoom) * damp(rig.zoomRate, delta);
+  state.yaw += wrapAngle(cameraViewYaw(input.heading) - state.yaw) * damp(rig.turnRate, delta);
+}
+
+/** 카메라가 바라볼 지점 (추적 위치 + 앞서 보기) */
+export function cameraLookTarget(state: CameraRigState, out: Vec3Like): Vec3Like {
+  out.x = (state.focus?.x ?? 0) + state.lookAhead.x;
+  out.y = state.focus?.y ?? 0;
+  out.z = (state.focus?.z ?? 0) + state.lookAhead.z;
+  return out;
+}
+
+/** 바라보는 지점에서 카메라까지의 오프셋 */
+export function cameraOffset(state: CameraRigState, out: Vec3Like, rig = CAMERA_RIG): Vec3Like {
+  const horizontal = rig.distance * Math.cos(rig.elevation);
+  out.x = horizontal * Math.sin(state.yaw);
+  out.y = rig.distance * Math.sin(rig.elevation);
+  out.z = horizontal * Math.cos(state.yaw);
+  return out;
+}
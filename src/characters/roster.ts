@@ -0,0 +1,66 @@
+// 🧑‍🤝‍🧑 플레이어 캐릭터 로스터
+// 캐릭터마다 모델, 서기/웅크리기 콜라이더, 이동 수치, 감지 보정(실루엣/발소리)을 따로 가집니다.
+
+import type { Vec3Tuple } from '../level/levelData';
+import { PLAYER_MOTOR } from '../player/playerMotor';
+import { CROUCH_BODY_SAMPLES, STAND_BODY_SAMPLES } from '../ai/perception';
+
+export type CharacterId = 'hero' | 'scout';
+
+// 캐릭터 컨트롤러가 발 위치를 기준으로 움직이므로 캡슐 바닥이 y = 0 에 오도록 둡니다 (position.y = halfHeight + radius).
+export interface CapsuleShape {
+  args: [halfHeight: number, radius: number];
+  position: Vec3Tuple;
+}
+
+export interface DetectionProfile {
+  standSamples: number[];   // 시야 판정용 신체 샘플 높이
+  crouchSamples: number[];
+  visibility: number;       // 노출 비율 배수 (작을수록 덜 보임)
+  noise: number;            // 발생 소음 음량 배수
+}
+
+export interface CharacterDefinition {
+  name: string;
+  model: string;
+  scale: number;
+  tint: string | null;      // 같은 모델을 쓰는 캐릭터 구분용 색
+  stand: CapsuleShape;
+  crouch: CapsuleShape;
+  motor: typeof PLAYER_MOTOR;
+  detection: DetectionProfile;
+}
+
+export const CHARACTERS: Record<CharacterId, CharacterDefinition> = {
+  hero: {
+    name: 'Hero',
+    model: '/models/hero.glb',
+    scale: 0.8,
+    tint: null,
+    stand: { args: [0.45, 0.3], position: [0, 0.75, 0] },
+    crouch: { args: [0.2, 0.3], position: [0, 0.5, 0] },
+    motor: PLAYER_MOTOR,
+    detection: { standSamples: STAND_BODY_SAMPLES, crouchSamples: CROUCH_BODY_SAMPLES, visibility: 1, noise: 1 },
+  },
+  // 작고 가벼운 정찰병: 덜 보이고 발소리가 작지만 점프가 낮습니다.
+  scout: {
+    name: 'Scout',
+    model: '/models/hero.glb',
+    scale: 0.65,
+    tint: '#7fb8ff',
+    stand: { args: [0.35, 0.22], position: [0, 0.57, 0] },
+    crouch: { args: [0.15, 0.22], position: [0, 0.37, 0] },
+    motor: { ...PLAYER_MOTOR, runSpeed: 5, walkSpeed: 2.2, jumpForce: 6, dashJumpForce: 4.2 },
+    detection: { standSamples: [0.25, 0.75, 1.2], crouchSamples: [0.25, 0.7], visibility: 0.75, noise: 0.6 },
+  },
+};
+
+// 지금 조작 중인 캐릭터 (레벨 배치 id + 로스터 id)
+export interface ActiveCharacter {
+  id: string;
+  character: CharacterId;
+}
+
+// 세이브 데이터 검증용. "constructor" 같은 상속 키는 캐릭터가 아닙니다.
+export const isCharacterId = (value: unknown): value is CharacterId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CHARACTERS, value);
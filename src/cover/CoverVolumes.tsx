@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { Box } from '@react-three/drei';
+import { CollisionPayload, CuboidCollider, RigidBody } from '@react-three/rapier';
+import { CoverVolume } from '../level/levelData';
+import { CoverKind, enterCover, exitCover, registerCoverVolume } from './cover';
+
+// 종류별 겉모습. 그림자/낮은 벽은 바닥 표시만 그립니다 (실제 벽/어둠은 레벨 지오메트리와 조명 몫).
+export const COVER_STYLES: Record<CoverKind, { color: string, opacity: number, floorOnly: boolean }> = {
+  grass: { color: '#2e8b57', opacity: 0.6, floorOnly: false },
+  shadow: { color: '#0a0612', opacity: 0.55, floorOnly: true },
+  locker: { color: '#6b7b8c', opacity: 0.85, floorOnly: false },
+  lowWall: { color: '#8a7f70', opacity: 0.3, floorOnly: true },
+};
+
+// 캐릭터 강체에만 반응합니다 (경비병/던진 물건은 무시).
+const characterIdOf = ({ other }: CollisionPayload) =>
+  (other.rigidBody?.userData as { characterId?: string } | undefined)?.characterId;
+
+// 🌿 엄폐 볼륨. 콜라이더별 진입/이탈만 기록해 두고, 숨었는지는 조작 중인 캐릭터의 틱에서 규칙으로 판정합니다.
+const Cover = ({ id, kind, position, size }: CoverVolume) => {
+  const [width, height, depth] = size;
+  const { color, opacity, floorOnly } = COVER_STYLES[kind];
+  const kindRef = useRef(kind);
+  kindRef.current = kind;
+
+  useEffect(() => registerCoverVolume(id, () => kindRef.current), [id]);
+
+  return (
+    <group position={position}>
+      {floorOnly
+        ? (
+          <Box args={[width, 0.04, depth]} position={[0, 0.02, 0]}>
+            <meshStandardMaterial color={color} transparent opacity={opacity} />
+          </Box>
+        )
+        : (
+          <Box args={size} position={[0, height / 2, 0]}>
+            <meshStandardMaterial color={color} transparent opacity={opacity} />
+          </Box>
+        )}
+      <RigidBody type="fixed" colliders={false}>
+        <CuboidCollider
+          args={[width / 2, height / 2, depth / 2]}
+          position={[0, height / 2, 0]}
+          sensor
+          onIntersectionEnter={(payload) => {
+            const characterId = characterIdOf(payload);
+            if (characterId) enterCover(characterId, payload.other.collider.handle, id);
+          }}
+          onIntersectionExit={(payload) => {
+            const characterId = characterIdOf(payload);
+            if (characterId) exitCover(characterId, payload.other.collider.handle, id);
+          }}
+        />
+      </RigidBody>
+    </group>
+  );
+};
+
+export const CoverVolumes = ({ volumes }: { volumes: CoverVolume[] }) => (
+  <>
+    {volumes.map((volume) => <Cover key={volume.id} {...volume} />)}
+  </>
+);
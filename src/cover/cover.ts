@@ -0,0 +1,109 @@
+// 🌿 엄폐 규칙과 엄폐 볼륨 추적
+// 볼륨마다 종류가 있고 종류마다 숨는 조건이 다릅니다. 겹친 볼륨을 지나가도 풀리지 않도록
+// 캐릭터별로 (볼륨, 콜라이더) 진입 횟수를 세어, 0 이 된 볼륨만 빠진 것으로 봅니다.
+
+import type { Vec3Tuple } from '../level/levelData';
+
+export type CoverKind = 'grass' | 'shadow' | 'locker' | 'lowWall';
+
+export const COVER_KINDS: readonly CoverKind[] = ['grass', 'shadow', 'locker', 'lowWall'];
+
+export const isCoverKind = (value: unknown): value is CoverKind =>
+  typeof value === 'string' && (COVER_KINDS as readonly string[]).includes(value);
+
+export interface CoverRule {
+  label: string;
+  hiddenAlways: boolean;        // 자세와 상관없이 완전 은신 (사물함)
+  hiddenWhenCrouched: boolean;  // 웅크리면 완전 은신
+  rateMultiplier: number;       // 숨지 못했을 때 감지 속도 배수
+  dark: boolean;                // 조명 노출도를 어둠으로 취급
+  defaultSize: Vec3Tuple;       // 가로 / 높이 / 세로
+}
+
+export const COVER_RULES: Record<CoverKind, CoverRule> = {
+  // 키 큰 풀: 웅크려야 숨고, 서 있으면 윤곽만 흐려집니다.
+  grass: { label: 'Tall grass', hiddenAlways: false, hiddenWhenCrouched: true, rateMultiplier: 0.4, dark: false, defaultSize: [2, 1.5, 2] },
+  // 그림자: 숨지는 못하지만 빛이 없는 것처럼 가까이 와야 보입니다.
+  shadow: { label: 'Shadow', hiddenAlways: false, hiddenWhenCrouched: false, rateMultiplier: 0.7, dark: true, defaultSize: [3, 2.5, 3] },
+  // 사물함: 안에 들어가면 완전히 숨습니다.
+  locker: { label: 'Locker', hiddenAlways: true, hiddenWhenCrouched: true, rateMultiplier: 0, dark: true, defaultSize: [1, 2.2, 1] },
+  // 낮은 벽 뒤: 웅크려야 의미가 있고 서 있으면 그대로 보입니다.
+  lowWall: { label: 'Low wall', hiddenAlways: false, hiddenWhenCrouched: true, rateMultiplier: 1, dark: false, defaultSize: [3, 1, 1.2] },
+};
+
+export const DEFAULT_COVER_KIND: CoverKind = 'grass';
+
+export interface Concealment {
+  hidden: boolean;
+  rateMultiplier: number;
+  dark: boolean;
+}
+
+export const NO_CONCEALMENT: Concealment = { hidden: false, rateMultiplier: 1, dark: false };
+
+/** 겹쳐 있는 엄폐 중 가장 유리한 규칙을 합칩니다. */
+export function resolveConcealment(kinds: readonly CoverKind[], isCrouching: boolean): Concealment {
+  if (kinds.length === 0) return NO_CONCEALMENT;
+  let hidden = false;
+  let rateMultiplier = 1;
+  let dark = false;
+  for (const kind of kinds) {
+    const rule = COVER_RULES[kind];
+    if (rule.hiddenAlways || (rule.hiddenWhenCrouched && isCrouching)) hidden = true;
+    rateMultiplier = Math.min(rateMultiplier, rule.rateMultiplier);
+    dark ||= rule.dark;
+  }
+  return { hidden, rateMultiplier, dark };
+}
+
+// --- 📋 캐릭터별 진입 기록 ---
+// characterId → 콜라이더 핸들 → 들어가 있는 volumeId. 종류는 편집으로 바뀔 수 있어 매번 볼륨에 물어봅니다.
+// 웅크리기/일어서기로 콜라이더가 바뀌면 예전 콜라이더의 이탈 이벤트는 오지 않으므로 releaseCoverCollider 로 지웁니다.
+const occupancy = new Map<string, Map<number, Set<string>>>();
+const volumeKinds = new Map<string, () => CoverKind>();
+
+/** 볼륨을 등록합니다. 돌려주는 함수로 해제하면 그 볼륨에 남은 진입 기록도 지웁니다 (편집으로 사라진 경우). */
+export function registerCoverVolume(volumeId: string, getKind: () => CoverKind) {
+  volumeKinds.set(volumeId, getKind);
+  return () => {
+    volumeKinds.delete(volumeId);
+    for (const colliders of occupancy.values()) {
+      for (const volumes of colliders.values()) volumes.delete(volumeId);
+    }
+  };
+}
+
+export function enterCover(characterId: string, colliderHandle: number, volumeId: string) {
+  const colliders = occupancy.get(characterId) ?? new Map<number, Set<string>>();
+  const volumes = colliders.get(colliderHandle) ?? new Set<string>();
+  volumes.add(volumeId);
+  colliders.set(colliderHandle, volumes);
+  occupancy.set(characterId, colliders);
+}
+
+export function exitCover(characterId: string, colliderHandle: number, volumeId: string) {
+  const colliders = occupancy.get(characterId);
+  const volumes = colliders?.get(colliderHandle);
+  if (!colliders || !volumes) return;
+  volumes.delete(volumeId);
+  if (volumes.size === 0) colliders.delete(colliderHandle);
+}
+
+/** 사라진 콜라이더의 진입 기록을 지웁니다. */
+export function releaseCoverCollider(characterId: string, colliderHandle: number) {
+  occupancy.get(characterId)?.delete(colliderHandle);
+}
+
+/** 캐릭터가 들어가 있는 엄폐 종류 (중복 없이 COVER_KINDS 순서) */
+export function coverKindsOf(characterId: string): CoverKind[] {
+  const colliders = occupancy.get(characterId);
+  if (!colliders || colliders.size === 0) return [];
+  const present = new Set<CoverKind>();
+  for (const volumes of colliders.values()) {
+    for (const volumeId of volumes) {
+      const getKind = volumeKinds.get(volumeId);
+      if (getKind) present.add(getKind());
+    }
+  }
+  return COVER_KINDS.filter((kind) => present.has(kind));
+}
@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import { button, useControls } from 'leva';
+import { useGameStore } from '../store';
+import { LevelData, Vec3Tuple } from '../level/levelData';
+import {
+  EditorSelection,
+  EditorTool,
+  moveSelection,
+  resizeBush,
+  setBushKind,
+  setEnemyPerception,
+  setWaypointWait,
+  toLevelDataFile,
+} from './levelEdits';
+import { deleteEditorSelection } from './editorActions';
+import { PERCEPTION_PROFILE_IDS, PerceptionProfileId } from '../ai/perceptionProfiles';
+import { COVER_KINDS, CoverKind } from '../cover/cover';
+import { COVER_STYLES } from '../cover/CoverVolumes';
+
+// ✏️ 레벨 편집 모드 (Live Mode 가 꺼져 있을 때)
+// 순찰 경로/엄폐 볼륨/시작 위치 마커를 그리고, leva 패널로 도구 선택과 속성 편집을 제공합니다.
+
+const TOOL_OPTIONS: Record<string, EditorTool> = {
+  'Select': 'select',
+  'Add Waypoint': 'waypoint',
+  'Add Guard': 'guard',
+  'Move Selected': 'move',
+  'Add Bush': 'bush',
+  'Set Player Start': 'playerStart',
+};
+
+const GUARD_ROUTE_COLORS = ['#ff8800', '#00ccff', '#ff44aa', '#aaff00', '#ffee00', '#aa66ff'];
+
+const sameVec3 = (a: Vec3Tuple, b: Vec3Tuple) => a.every((v, i) => Math.abs(v - b[i]) < 1e-4);
+
+const selectionKey = (selection: EditorSelection | null) => {
+  if (!selection) return 'none';
+  switch (selection.kind) {
+    case 'waypoint': return `waypoint:${selection.enemyId}:${selection.index}`;
+    case 'bush': return `bush:${selection.id}`;
+    case 'playerStart': return 'playerStart';
+  }
+};
+
+// 마커 클릭 시 OrbitControls 드래그와 구분하고 레벨 클릭으로 전파되지 않게 합니다.
+const onMarkerClick = (select: () => void) => (e: ThreeEvent<MouseEvent>) => {
+  if (e.delta > 4) return;
+  e.stopPropagation();
+  select();
+};
+
+interface InspectedItem {
+  label: string;
+  position: Vec3Tuple;
+  wait?: number;
+  size?: Vec3Tuple;
+  perception?: PerceptionProfileId;   // 웨이포인트를 고르면 그 경비병의 프로필
+  cover?: CoverKind;
+}
+
+const findSelected = (level: LevelData, selection: EditorSelection): InspectedItem | null => {
+  switch (selection.kind) {
+    case 'waypoint': {
+      const enemy = level.enemies.find((e) => e.id === selection.enemyId);
+      const point = enemy?.patrol[selection.index];
+      return enemy && point
+        ? { label: `${selection.enemyId} #${selection.index + 1}`, position: point.position, wait: point.wait, perception: enemy.perception }
+        : null;
+    }
+    case 'bush': {
+      const bush = level.bushes.find((b) => b.id === selection.id);
+      return bush ? { label: bush.id, position: bush.position, size: bush.size, cover: bush.kind } : null;
+    }
+    case 'playerStart':
+      return { label: 'Player Start', position: level.playerStart };
+  }
+};
+
+const SelectionInspector = () => {
+  const selection = useGameStore((state) => state.editorSelection);
+  const levelData = useGameStore((state) => state.levelData);
+  const key = selectionKey(selection);
+
+  const selected = useMemo(() => (selection ? findSelected(levelData, selection) : null), [selection, levelData]);
+
+  // leva → 스토어: 값이 실제로 달라졌을 때만 반영 (스토어 → leva 동기화와 루프 방지)
+  const [, set] = useControls('Inspector', () => {
+    const { editorSelection: current } = useGameStore.getState();
+    if (!current || !selected) return { selected: { value: 'none', editable: false } };
+
+    const latest = () => findSelected(useGameStore.getState().levelData, current);
+    const schema: Record<string, any> = {
+      selected: { value: selected.label, editable: false },
+      position: {
+        value: selected.position,
+        step: 0.1,
+        onChange: (value: Vec3Tuple, _: string, { initial }: { initial: boolean }) => {
+          const before = latest();
+          if (initial || !before || sameVec3(before.position, value)) return;
+          useGameStore.getState().updateLevelData((level) => moveSelection(level, current, value));
+        },
+      },
+    };
+    if (current.kind === 'waypoint' && selected.wait !== undefined) {
+      schema.wait = {
+        value: selected.wait,
+        min: 0,
+        step: 0.5,
+        onChange: (value: number, _: string, { initial }: { initial: boolean }) => {
+          const before = latest();
+          if (initial || !before || before.wait === value) return;
+          useGameStore.getState().updateLevelData((level) => setWaypointWait(level, current.enemyId, current.index, value));
+        },
+      };
+    }
+    if (current.kind === 'waypoint' && selected.perception) {
+      schema.perception = {
+        value: selected.perception,
+        options: PERCEPTION_PROFILE_IDS,
+        onChange: (value: PerceptionProfileId, _: string, { initial }: { initial: boolean }) => {
+          const before = latest();
+          if (initial || !before || before.perception === value) return;
+          useGameStore.getState().updateLevelData((level) => setEnemyPerception(level, current.enemyId, value));
+        },
+      };
+    }
+    if (current.kind === 'bush' && selected.cover) {
+      schema.cover = {
+        value: selected.cover,
+        options: COVER_KINDS,
+        onChange: (value: CoverKind, _: string, { initial }: { initial: boolean }) => {
+          const before = latest();
+          if (initial || !before || before.cover === value) return;
+          useGameStore.getState().updateLevelData((level) => setBushKind(level, current.id, value));
+        },
+      };
+    }
+    if (current.kind === 'bush' && selected.size) {
+      schema.size = {
+        value: selected.size,
+        step: 0.1,
+        onChange: (value: Vec3Tuple, _: string, { initial }: { initial: boolean }) => {
+          const before = latest();
+          if (initial || !before?.size || sameVec3(before.size, value)) return;
+          useGameStore.getState().updateLevelData((level) => resizeBush(level, current.id, value));
+        },
+      };
+    }
+    return schema;
+  }, [key, selected === null]);
+
+  // 스토어 → leva: 클릭 이동 등 패널 밖에서 바뀐 값을 반영
+  useEffect(() => {
+    if (!selected) return;
+    const values: Record<string, any> = { position: selected.position };
+    if (selected.wait !== undefined) values.wait = selected.wait;
+    if (selected.perception) values.perception = selected.perception;
+    if (selected.cover) values.cover = selected.cover;
+    if (selected.size) values.size = selected.size;
+    set(values);
+  }, [selected, set]);
+
+  return null;
+};
+
+export const LevelEditor = ({ fileName }: { fileName: string }) => {
+  const levelData = useGameStore((state) => state.levelData);
+  const editorGuardId = useGameStore((state) => state.editorGuardId);
+  const editorSelection = useGameStore((state) => state.editorSelection);
+  const setEditorTool = useGameStore((state) => state.setEditorTool);
+  const setEditorGuardId = useGameStore((state) => state.setEditorGuardId);
+  const setEditorSelection = useGameStore((state) => state.setEditorSelection);
+
+  const guardIds = levelData.enemies.map((e) => e.id);
+  const lastReadout = useRef(0);
+
+  const [, setEditorControls] = useControls('Editor', () => ({
+    tool: {
+      value: useGameStore.getState().editorTool,
+      options: TOOL_OPTIONS,
+      onChange: (tool: EditorTool) => setEditorTool(tool),
+    },
+    guard: {
+      value: useGameStore.getState().editorGuardId ?? guardIds[0] ?? '',
+      options: guardIds,
+      onChange: (guardId: string) => setEditorGuardId(guardId || null),
+    },
+    'Delete Selected': button(() => deleteEditorSelection()),
+    'Export JSON': button(() => {
+      const json = JSON.stringify(toLevelDataFile(useGameStore.getState().levelData), null, 2);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+      console.log(`✏️ Exported ${fileName}`);
+    }),
+  }), [guardIds.join('|')]);
+
+  // 다른 경비병의 마커를 선택하면 패널의 guard 항목도 따라갑니다.
+  useEffect(() => {
+    if (editorGuardId && guardIds.includes(editorGuardId)) setEditorControls({ guard: editorGuardId });
+  }, [editorGuardId, guardIds.join('|'), setEditorControls]);
+
+  // 플레이어 좌표 표시 (기존 X/Y/Z 오버레이 대체)
+  const [, setReadout] = useControls('Inspector', () => ({
+    player: { value: '', editable: false, label: 'Player XYZ' },
+  }));
+  useFrame((state) => {
+    if (state.clock.elapsedTime - lastReadout.current < 0.1) return;
+    lastReadout.current = state.clock.elapsedTime;
+    const { x, y, z } = useGameStore.getState().playerPosition;
+    setReadout({ player: `${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)}` });
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.code === 'Delete' || e.code === 'Backspace') deleteEditorSelection();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const isSelected = (selection: EditorSelection) => selectionKey(selection) === selectionKey(editorSelection);
+
+  return (
+    <group>
+      <SelectionInspector />
+
+      {levelData.enemies.map((enemy, e) => {
+        const color = GUARD_ROUTE_COLORS[e % GUARD_ROUTE_COLORS.length];
+        const route = enemy.patrol.map(({ position: [x, y, z] }) => [x, y + 0.15, z] as Vec3Tuple);
+        return (
+          <group key={enemy.id}>
+            {route.length > 1 && <Line points={[...route, route[0]]} color={color} lineWidth={enemy.id === editorGuardId ? 3 : 1.5} dashed={enemy.id !== editorGuardId} />}
+            {enemy.patrol.map((point, index) => {
+              const selection: EditorSelection = { kind: 'waypoint', enemyId: enemy.id, index };
+              return (
+                <mesh
+                  key={index}
+                  position={point.position}
+                  onClick={onMarkerClick(() => { setEditorGuardId(enemy.id); setEditorSelection(selection); })}
+                >
+                  <sphereGeometry args={[isSelected(selection) ? 0.35 : 0.22, 16, 12]} />
+                  <meshBasicMaterial color={isSelected(selection) ? '#ffffff' : color} depthTest={false} transparent />
+                </mesh>
+              );
+            })}
+          </group>
+        );
+      })}
+
+      {levelData.bushes.map((bush) => {
+        const selection: EditorSelection = { kind: 'bush', id: bush.id };
+        return (
+          <mesh
+            key={bush.id}
+            position={[bush.position[0], bush.position[1] + bush.size[1] / 2, bush.position[2]]}
+            onClick={onMarkerClick(() => setEditorSelection(selection))}
+          >
+            <boxGeometry args={bush.size} />
+            <meshBasicMaterial color={isSelected(selection) ? '#ffffff' : COVER_STYLES[bush.kind].color} wireframe />
+          </mesh>
+        );
+      })}
+
+      <mesh
+        position={[levelData.playerStart[0], levelData.playerStart[1] + 0.5, levelData.playerStart[2]]}
+        rotation={[Math.PI, 0, 0]}
+        onClick={onMarkerClick(() => setEditorSelection({ kind: 'playerStart' }))}
+      >
+        <coneGeometry args={[0.3, 0.8, 12]} />
+        <meshBasicMaterial color={isSelected({ kind: 'playerStart' }) ? '#ffffff' : '#00ff00'} depthTest={false} transparent />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,52 @@
+// ✏️ 에디터 도구 → 레벨 데이터 변경
+// 레벨 트라이메시 클릭 위치를 현재 도구에 맞게 해석합니다.
+
+import { useGameStore } from '../store';
+import { Vec3Tuple } from '../level/levelData';
+import { addBush, addEnemy, deleteSelection, insertWaypoint, moveSelection } from './levelEdits';
+
+export function applyEditorClick(point: Vec3Tuple) {
+  const { editorTool, editorGuardId, editorSelection, levelData, setLevelData, setEditorSelection, setEditorGuardId } = useGameStore.getState();
+
+  switch (editorTool) {
+    case 'waypoint': {
+      if (!editorGuardId) return;
+      const afterIndex = editorSelection?.kind === 'waypoint' && editorSelection.enemyId === editorGuardId ? editorSelection.index : null;
+      const [next, index] = insertWaypoint(levelData, editorGuardId, afterIndex, point);
+      if (index < 0) return;
+      setLevelData(next);
+      setEditorSelection({ kind: 'waypoint', enemyId: editorGuardId, index });
+      return;
+    }
+    case 'guard': {
+      const [next, id] = addEnemy(levelData, point);
+      setLevelData(next);
+      setEditorGuardId(id);
+      setEditorSelection({ kind: 'waypoint', enemyId: id, index: 0 });
+      return;
+    }
+    case 'bush': {
+      const [next, id] = addBush(levelData, point);
+      setLevelData(next);
+      setEditorSelection({ kind: 'bush', id });
+      return;
+    }
+    case 'move':
+      if (editorSelection) setLevelData(moveSelection(levelData, editorSelection, point));
+      return;
+    case 'playerStart':
+      setLevelData(moveSelection(levelData, { kind: 'playerStart' }, point));
+      setEditorSelection({ kind: 'playerStart' });
+      return;
+    case 'select':
+      setEditorSelection(null);
+      return;
+  }
+}
+
+export function deleteEditorSelection() {
+  const { editorSelection, levelData, setLevelData, setEditorSelection } = useGameStore.getState();
+  if (!editorSelection || editorSelection.kind === 'playerStart') return;
+  setLevelData(deleteSelection(levelData, editorSelection));
+  setEditorSelection(null);
+}
@@ -0,0 +1,145 @@
+// ✏️ 레벨 편집 연산
+// 에디터 도구가 LevelData 에 가하는 변경을 불변 업데이트 함수로 모아둡니다.
+
+import {
+  CoverVolume,
+  DEFAULT_BUSH_SIZE,
+  DEFAULT_PATROL_WAIT,
+  LEVEL_DATA_VERSION,
+  LevelData,
+  LevelDataFile,
+  PatrolWaypoint,
+  Vec3Tuple,
+} from '../level/levelData';
+import { DEFAULT_PERCEPTION_PROFILE, PerceptionProfileId } from '../ai/perceptionProfiles';
+import { CoverKind, DEFAULT_COVER_KIND } from '../cover/cover';
+
+export type EditorTool = 'select' | 'waypoint' | 'guard' | 'move' | 'bush' | 'playerStart';
+
+export type EditorSelection =
+  | { kind: 'waypoint'; enemyId: string; index: number }
+  | { kind: 'bush'; id: string }
+  | { kind: 'playerStart' };
+
+const updateEnemyPatrol = (level: LevelData, enemyId: string, update: (patrol: PatrolWaypoint[]) => PatrolWaypoint[]): LevelData => ({
+  ...level,
+  enemies: level.enemies.map((enemy) => (enemy.id === enemyId ? { ...enemy, patrol: update(enemy.patrol) } : enemy)),
+});
+
+const updateBush = (level: LevelData, id: string, update: (bush: CoverVolume) => CoverVolume): LevelData => ({
+  ...level,
+  bushes: level.bushes.map((bush) => (bush.id === id ? update(bush) : bush)),
+});
+
+const uniqueId = (prefix: string, taken: { id: string }[]) => {
+  let n = taken.length + 1;
+  while (taken.some(({ id }) => id === `${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+};
+
+/** 선택한 웨이포인트 뒤(없으면 끝)에 새 웨이포인트를 끼워 넣고 그 인덱스를 돌려줍니다. */
+export function insertWaypoint(level: LevelData, enemyId: string, afterIndex: number | null, position: Vec3Tuple): [LevelData, number] {
+  const enemy = level.enemies.find((e) => e.id === enemyId);
+  if (!enemy) return [level, -1];
+  const index = afterIndex === null ? enemy.patrol.length : afterIndex + 1;
+  const next = updateEnemyPatrol(level, enemyId, (patrol) => [
+    ...patrol.slice(0, index),
+    { position, wait: DEFAULT_PATROL_WAIT },
+    ...patrol.slice(index),
+  ]);
+  return [next, index];
+}
+
+export function addEnemy(level: LevelData, position: Vec3Tuple): [LevelData, string] {
+  const id = uniqueId('guard', level.enemies);
+  return [{ ...level, enemies: [...level.enemies, { id, patrol: [{ position, wait: DEFAULT_PATROL_WAIT }], perception: DEFAULT_PERCEPTION_PROFILE }] }, id];
+}
+
+export function addBush(level: LevelData, position: Vec3Tuple): [LevelData, string] {
+  const id = uniqueId('bush', level.bushes);
+  return [{ ...level, bushes: [...level.bushes, { id, kind: DEFAULT_COVER_KIND, position, size: DEFAULT_BUSH_SIZE }] }, id];
+}
+
+export function moveSelection(level: LevelData, selection: EditorSelection, position: Vec3Tuple): LevelData {
+  switch (selection.kind) {
+    case 'waypoint':
+      return updateEnemyPatrol(level, selection.enemyId, (patrol) =>
+        patrol.map((point, i) => (i === selection.index ? { ...point, position } : point))
+      );
+    case 'bush':
+      return updateBush(level, selection.id, (bush) => ({ ...bush, position }));
+    case 'playerStart':
+      return { ...level, playerStart: position };
+  }
+}
+
+export function setWaypointWait(level: LevelData, enemyId: string, index: number, wait: number): LevelData {
+  return updateEnemyPatrol(level, enemyId, (patrol) =>
+    patrol.map((point, i) => (i === index ? { ...point, wait: Math.max(0, wait) } : point))
+  );
+}
+
+export function setEnemyPerception(level: LevelData, enemyId: string, perception: PerceptionProfileId): LevelData {
+  return { ...level, enemies: level.enemies.map((enemy) => (enemy.id === enemyId ? { ...enemy, perception } : enemy)) };
+}
+
+/** 엄폐 종류를 바꿉니다. 크기는 그대로 두므로 필요하면 따로 조절합니다. */
+export function setBushKind(level: LevelData, id: string, kind: CoverKind): LevelData {
+  return updateBush(level, id, (bush) => ({ ...bush, kind }));
+}
+
+export function resizeBush(level: LevelData, id: string, size: Vec3Tuple): LevelData {
+  return updateBush(level, id, (bush) => ({ ...bush, size: size.map((v) => Math.max(0.1, v)) as Vec3Tuple }));
+}
+
+/**
+ * 선택 항목을 삭제합니다. 경비병의 마지막 웨이포인트를 지우면 경비병 자체가 제거되고,
+ * 플레이어 시작 위치는 지울 수 없습니다.
+ */
+export function deleteSelection(level: LevelData, selection: EditorSelection): LevelData {
+  switch (selection.kind) {
+    case 'waypoint': {
+      const enemy = level.enemies.find((e) => e.id === selection.enemyId);
+      if (enemy && enemy.patrol.length <= 1) {
+        return { ...level, enemies: level.enemies.filter((e) => e.id !== selection.enemyId) };
+      }
+      return updateEnemyPatrol(level, selection.enemyId, (patrol) => patrol.filter((_, i) => i !== selection.index));
+    }
+    case 'bush':
+      return { ...level, bushes: level.bushes.filter((bush) => bush.id !== selection.id) };
+    case 'playerStart':
+      return level;
+  }
+}
+
+/** 저장용 사이드카 JSON 형식으로 변환합니다. */
+export function toLevelDataFile(level: LevelData): LevelDataFile {
+  const round = (v: Vec3Tuple) => v.map((n) => Math.round(n * 100) / 100) as Vec3Tuple;
+  return {
+    version: LEVEL_DATA_VERSION,
+    playerStart: round(level.playerStart),
+    enemies: level.enemies.map((enemy) => ({
+      id: enemy.id,
+      patrol: enemy.patrol.map((point) => ({ position: round(point.position), wait: point.wait })),
+      perception: enemy.perception,
+    })),
+    bushes: level.bushes.map((bush) => ({ id: bush.id, kind: bush.kind, position: round(bush.position), size: round(bush.size) })),
+    checkpoints: level.checkpoints.map((checkpoint) => ({
+      id: checkpoint.id,
+      position: round(checkpoint.position),
+      size: round(checkpoint.size),
+    })),
+    interactables: level.interactables.map((item) => ({ ...item, position: round(item.position) })),
+    alarmPanels: level.alarmPanels.map((panel) => ({ id: panel.id, position: round(panel.position) })),
+    cameras: level.cameras.map((camera) => ({ ...camera, position: round(camera.position) })),
+    sentries: level.sentries.map((sentry) => ({
+      ...sentry,
+      position: round(sentry.position),
+      lookAt: sentry.lookAt.map((look) => ({ target: round(look.target), duration: look.duration })),
+    })),
+    lamps: level.lamps.map((lamp) => ({ ...lamp, position: round(lamp.position) })),
+    extractionZones: level.extractionZones.map((zone) => ({ id: zone.id, position: round(zone.position), size: round(zone.size) })),
+    objectives: level.objectives,
+    party: level.party.map((member) => ({ ...member, position: round(member.position) })),
+  };
+}
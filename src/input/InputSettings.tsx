@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { button, useControls } from 'leva';
+import { useGameStore } from '../store';
+import { CONTROL_NAMES, Controls, DEFAULT_KEY_BINDINGS, KeyBindings } from './controls';
+import { describeConflicts, findBindingConflicts, rebindPrimaryKey, saveKeyBindings } from './bindings';
+
+// ⌨️ 키 재지정 패널
+// 동작을 고르고 Rebind 를 누른 뒤 새 키를 누르면 주 키가 바뀝니다. 바뀐 배치는 바로 저장됩니다.
+
+const applyBindings = (bindings: KeyBindings) => {
+  const conflicts = findBindingConflicts(bindings);
+  if (conflicts.length > 0) console.warn(`⌨️ Conflicting key bindings: ${describeConflicts(conflicts)}`);
+  saveKeyBindings(bindings);
+  useGameStore.getState().setKeyBindings(bindings);
+};
+
+export const InputSettings = () => {
+  const keyBindings = useGameStore((state) => state.keyBindings);
+  const rebindingAction = useGameStore((state) => state.rebindingAction);
+  const setRebindingAction = useGameStore((state) => state.setRebindingAction);
+
+  const [, set] = useControls('Controls', () => ({
+    ...Object.fromEntries(CONTROL_NAMES.map((action) => [action, { value: '', editable: false }])),
+    conflicts: { value: '', editable: false },
+    action: { value: Controls.jump, options: CONTROL_NAMES },
+    'Rebind': button((get) => setRebindingAction(get('Controls.action'))),
+    'Reset Defaults': button(() => applyBindings(DEFAULT_KEY_BINDINGS)),
+  }), { collapsed: true });
+
+  useEffect(() => {
+    const labels = Object.fromEntries(CONTROL_NAMES.map((action) => [
+      action,
+      action === rebindingAction ? 'press a key… (Esc to cancel)' : keyBindings[action].join(' / '),
+    ]));
+    set({ ...labels, conflicts: describeConflicts(findBindingConflicts(keyBindings)) || 'none' });
+  }, [keyBindings, rebindingAction, set]);
+
+  // 재지정 중에는 다음 키 입력을 가로채 게임 입력으로 넘어가지 않게 합니다.
+  useEffect(() => {
+    if (!rebindingAction) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code === 'Escape' && rebindingAction !== Controls.menu) {
+        setRebindingAction(null);
+        return;
+      }
+      applyBindings(rebindPrimaryKey(useGameStore.getState().keyBindings, rebindingAction, e.code));
+      setRebindingAction(null);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [rebindingAction, setRebindingAction]);
+
+  return null;
+};
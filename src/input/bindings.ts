@@ -0,0 +1,65 @@
+// ⌨️ 키 바인딩: 충돌 검사, 재지정, 저장
+// drei KeyboardControls 는 키 하나에 동작 하나만 연결하므로, 같은 키를 두 동작에 걸면 뒤쪽만 동작합니다.
+// 그래서 충돌은 불러올 때와 재지정할 때 모두 검사해 알려줍니다.
+
+import type { KeyboardControlsEntry } from '@react-three/drei';
+import { CONTROL_NAMES, Controls, DEFAULT_KEY_BINDINGS, KeyBindings } from './controls';
+
+export const BINDINGS_VERSION = 1;
+export const BINDINGS_STORAGE_KEY = 'r3f-shadow:bindings';
+
+export interface BindingConflict {
+  key: string;
+  actions: Controls[];
+}
+
+export function findBindingConflicts(bindings: KeyBindings): BindingConflict[] {
+  const byKey = new Map<string, Controls[]>();
+  for (const action of CONTROL_NAMES) {
+    for (const key of bindings[action]) byKey.set(key, [...(byKey.get(key) ?? []), action]);
+  }
+  return [...byKey.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => ({ key, actions }));
+}
+
+export const describeConflicts = (conflicts: BindingConflict[]) =>
+  conflicts.map(({ key, actions }) => `${key}: ${actions.join(' + ')}`).join(', ');
+
+/** 첫 번째(주) 키만 바꾸고 보조 키(방향키 등)는 유지합니다. */
+export function rebindPrimaryKey(bindings: KeyBindings, action: Controls, key: string): KeyBindings {
+  const rest = bindings[action].slice(1).filter((k) => k !== key);
+  return { ...bindings, [action]: [key, ...rest] };
+}
+
+export function toKeyboardMap(bindings: KeyBindings): KeyboardControlsEntry<Controls>[] {
+  return CONTROL_NAMES.map((name) => ({ name, keys: bindings[name] }));
+}
+
+/** 저장된 바인딩을 읽습니다. 없거나 형식이 틀린 동작은 기본값을 씁니다. */
+export function loadKeyBindings(storage: Storage = localStorage): KeyBindings {
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  try {
+    const raw = storage.getItem(BINDINGS_STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : null;
+    if (data?.version === BINDINGS_VERSION && typeof data.keys === 'object' && data.keys !== null) {
+      for (const action of CONTROL_NAMES) {
+        const keys = data.keys[action];
+        if (Array.isArray(keys) && keys.length > 0 && keys.every((k) => typeof k === 'string')) bindings[action] = keys;
+      }
+    }
+  } catch (e) {
+    console.warn('⌨️ Failed to read key bindings:', (e as Error).message);
+  }
+  const conflicts = findBindingConflicts(bindings);
+  if (conflicts.length > 0) console.warn(`⌨️ Conflicting key bindings: ${describeConflicts(conflicts)}`);
+  return bindings;
+}
+
+export function saveKeyBindings(bindings: KeyBindings, storage: Storage = localStorage) {
+  try {
+    storage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify({ version: BINDINGS_VERSION, keys: bindings }));
+  } catch (e) {
+    console.warn('⌨️ Failed to write key bindings:', (e as Error).message);
+  }
+}
@@ -0,0 +1,40 @@
+// 🎮 입력 동작 정의와 기본 키 배치
+// 키보드와 게임패드가 같은 동작(Controls)으로 모입니다. 키는 KeyboardEvent.code 기준입니다.
+
+export enum Controls {
+  forward = 'forward',
+  backward = 'backward',
+  left = 'left',
+  right = 'right',
+  jump = 'jump',
+  toggleMode = 'toggleMode',
+  interact = 'interact',
+  inventory = 'inventory',
+  special = 'special',
+  switchChar = 'switchChar',
+  menu = 'menu',
+  cameraLeft = 'cameraLeft',
+  cameraRight = 'cameraRight',
+}
+
+// 녹화 비트 순서. 녹화는 자기 순서를 함께 저장하고 parseRecording 이 이름으로 다시 맞추므로, 항목을 추가하거나 옮겨도 기존 녹화를 읽을 수 있습니다.
+// 이름을 바꾸거나 지우면 그 동작이 들어 있는 녹화는 거부됩니다.
+export const CONTROL_NAMES = Object.values(Controls);
+
+export type KeyBindings = Record<Controls, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  [Controls.forward]: ['ArrowUp', 'KeyW'],
+  [Controls.backward]: ['ArrowDown', 'KeyS'],
+  [Controls.left]: ['ArrowLeft', 'KeyA'],
+  [Controls.right]: ['ArrowRight', 'KeyD'],
+  [Controls.jump]: ['Space'],
+  [Controls.toggleMode]: ['KeyQ'],
+  [Controls.interact]: ['KeyF'],
+  [Controls.inventory]: ['KeyI'],
+  [Controls.special]: ['KeyR'],
+  [Controls.switchChar]: ['KeyE'],
+  [Controls.menu]: ['Escape'],
+  [Controls.cameraLeft]: ['KeyZ'],
+  [Controls.cameraRight]: ['KeyC'],
+};
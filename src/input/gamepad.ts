@@ -0,0 +1,50 @@
+// 🕹️ 게임패드 (Gamepad API, standard 매핑)
+// 왼쪽 스틱은 아날로그 이동, 버튼은 키보드와 같은 Controls 동작으로 들어갑니다.
+
+import { Controls } from './controls';
+
+// standard 매핑 버튼 번호: A=0, B=1, X=2, Y=3, LB=4, RB=5, LT=6, RT=7, Start=9, 십자키=12~15
+export const GAMEPAD_BUTTONS: Partial<Record<Controls, number[]>> = {
+  [Controls.jump]: [0],
+  [Controls.toggleMode]: [1],
+  [Controls.interact]: [2],
+  [Controls.inventory]: [3],
+  [Controls.switchChar]: [4],
+  [Controls.special]: [5],
+  [Controls.menu]: [9],
+  [Controls.cameraLeft]: [6],
+  [Controls.cameraRight]: [7],
+  [Controls.forward]: [12],
+  [Controls.backward]: [13],
+  [Controls.left]: [14],
+  [Controls.right]: [15],
+};
+
+export const STICK_DEADZONE = 0.2;
+
+export interface GamepadState {
+  held: Partial<Record<Controls, boolean>>;
+  moveX: number;    // 오른쪽 +
+  moveY: number;    // 앞(스틱 위) +
+}
+
+/** 연결된 첫 번째 게임패드 상태. 없으면 null. */
+export function readGamepad(): GamepadState | null {
+  const pad = typeof navigator !== 'undefined' && navigator.getGamepads
+    ? navigator.getGamepads().find((p): p is Gamepad => !!p && p.connected)
+    : undefined;
+  if (!pad) return null;
+
+  const held: GamepadState['held'] = {};
+  for (const [action, buttons] of Object.entries(GAMEPAD_BUTTONS) as [Controls, number[]][]) {
+    if (buttons.some((i) => pad.buttons[i]?.pressed)) held[action] = true;
+  }
+
+  // 원형 데드존: 데드존 밖은 0 ~ 1 로 다시 펼칩니다.
+  const x = pad.axes[0] ?? 0;
+  const y = -(pad.axes[1] ?? 0);
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < STICK_DEADZONE) return { held, moveX: 0, moveY: 0 };
+  const scale = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / magnitude;
+  return { held, moveX: x * scale, moveY: y * scale };
+}
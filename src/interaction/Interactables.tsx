@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import { Box } from '@react-three/drei';
+import { BallCollider, CuboidCollider, RapierCollider, RigidBody } from '@react-three/rapier';
+import { useGameStore } from '../store';
+import { DoorSpawn, InteractableSpawn, PickupSpawn, SwitchSpawn } from '../level/levelData';
+import { ITEMS } from '../items/items';
+import { Interactable, registerInteractable } from './interactables';
+
+// 🖐️ 문 / 스위치 / 픽업
+// 각자 센서 콜라이더를 상호작용 범위로 등록하고, 상태(열림/켜짐/획득)는 스토어에 둡니다.
+// 스위치는 문을 열거나 보안 카메라를 끕니다.
+
+/** 센서 콜라이더를 상호작용 범위로 등록합니다. prompt/interact 는 매 렌더의 최신 값을 씁니다. */
+export const useRegisterInteractable = (collider: React.RefObject<RapierCollider>, interactable: Interactable) => {
+  const latest = useRef(interactable);
+  latest.current = interactable;
+  useEffect(() => {
+    if (!collider.current) return;
+    return registerInteractable(collider.current.handle, {
+      id: interactable.id,
+      get position() { return latest.current.position; },
+      prompt: () => latest.current.prompt(),
+      interact: () => latest.current.interact(),
+    });
+  }, [collider, interactable.id]);
+};
+
+const Door = ({ id, position, size, rotationY, requires }: DoorSpawn) => {
+  const isOpen = useGameStore((state) => !!state.openDoors[id]);
+  const sensor = useRef<RapierCollider>(null);
+  const [width, height, depth] = size;
+  const [x, y, z] = position;
+
+  useRegisterInteractable(sensor, {
+    id,
+    position: { x, y, z },
+    prompt: () => {
+      const { openDoors, inventory } = useGameStore.getState();
+      if (openDoors[id]) return 'Close door';
+      if (requires && !inventory[requires]) return `Locked (needs ${ITEMS[requires].name})`;
+      return 'Open door';
+    },
+    interact: () => {
+      const { openDoors, inventory, setDoorOpen } = useGameStore.getState();
+      if (!openDoors[id] && requires && !inventory[requires]) {
+        console.log(`🚪 ${id} is locked`);
+        return;
+      }
+      setDoorOpen(id, !openDoors[id]);
+    },
+  });
+
+  return (
+    <group position={position} rotation={[0, rotationY, 0]}>
+      <Box args={size} position={[0, height / 2, 0]}>
+        <meshStandardMaterial color={requires ? '#8a5a2b' : '#6b4a2b'} transparent opacity={isOpen ? 0.15 : 1} />
+      </Box>
+      <RigidBody type="fixed" colliders={false}>
+        {!isOpen && <CuboidCollider args={[width / 2, height / 2, depth / 2]} position={[0, height / 2, 0]} />}
+        <CuboidCollider ref={sensor} args={[width / 2, height / 2, depth / 2 + 1]} position={[0, height / 2, 0]} sensor />
+      </RigidBody>
+    </group>
+  );
+};
+
+const Switch = ({ id, position, targets }: SwitchSpawn) => {
+  const isActive = useGameStore((state) => !!state.activeSwitches[id]);
+  const sensor = useRef<RapierCollider>(null);
+  const [x, y, z] = position;
+
+  useRegisterInteractable(sensor, {
+    id,
+    position: { x, y, z },
+    prompt: () => 'Use switch',
+    interact: () => {
+      const { activeSwitches, setSwitchActive, setDoorOpen, setCameraDisabled, levelData } = useGameStore.getState();
+      const active = !activeSwitches[id];
+      setSwitchActive(id, active);
+      // 스위치로 여는 문은 잠금과 관계없이 열립니다.
+      for (const target of targets) {
+        if (levelData.cameras.some((camera) => camera.id === target)) setCameraDisabled(target, active);
+        else setDoorOpen(target, active);
+      }
+    },
+  });
+
+  return (
+    <group position={position}>
+      <Box args={[0.3, 1, 0.3]} position={[0, 0.5, 0]}>
+        <meshStandardMaterial color="#555555" />
+      </Box>
+      <Box args={[0.2, 0.2, 0.2]} position={[0, 1.1, 0]}>
+        <meshStandardMaterial color={isActive ? '#44ff44' : '#ff4444'} emissive={isActive ? '#22aa22' : '#aa2222'} />
+      </Box>
+      <RigidBody type="fixed" colliders={false}>
+        <CuboidCollider ref={sensor} args={[0.75, 1, 0.75]} position={[0, 1, 0]} sensor />
+      </RigidBody>
+    </group>
+  );
+};
+
+const Pickup = ({ id, position, item, count }: PickupSpawn) => {
+  const isCollected = useGameStore((state) => !!state.collectedPickups[id]);
+  const sensor = useRef<RapierCollider>(null);
+  const [x, y, z] = position;
+
+  useRegisterInteractable(sensor, {
+    id,
+    position: { x, y, z },
+    prompt: () => {
+      if (useGameStore.getState().collectedPickups[id]) return null;
+      return `Pick up ${ITEMS[item].name}${count > 1 ? ` ×${count}` : ''}`;
+    },
+    interact: () => {
+      const { addItem, collectPickup } = useGameStore.getState();
+      addItem(item, count);
+      collectPickup(id);
+      console.log(`🎒 Picked up ${ITEMS[item].name} ×${count}`);
+    },
+  });
+
+  return (
+    <group position={position}>
+      {!isCollected && (
+        <Box args={[0.3, 0.3, 0.3]} position={[0, 0.4, 0]} rotation={[0, Math.PI / 4, 0]}>
+          <meshStandardMaterial color={ITEMS[item].kind === 'key' ? '#ffd700' : '#66ccff'} emissive="#333333" />
+        </Box>
+      )}
+      <RigidBody type="fixed" colliders={false}>
+        <BallCollider ref={sensor} args={[0.6]} position={[0, 0.4, 0]} sensor />
+      </RigidBody>
+    </group>
+  );
+};
+
+export const Interactables = ({ items }: { items: InteractableSpawn[] }) => (
+  <>
+    {items.map((item) => {
+      switch (item.kind) {
+        case 'door': return <Door key={item.id} {...item} />;
+        case 'switch': return <Switch key={item.id} {...item} />;
+        case 'pickup': return <Pickup key={item.id} {...item} />;
+      }
+    })}
+  </>
+);
@@ -0,0 +1,48 @@
+// 🖐️ 상호작용 대상 레지스트리
+// 문/스위치/픽업은 자기 센서 콜라이더 handle 로 등록해 둡니다. 플레이어 주변을 Rapier 형상 질의로 훑어
+// 겹친 센서 중 지금 상호작용할 수 있는 가장 가까운 대상을 고릅니다.
+
+import type { Vec3Like } from '../ai/guardBrain';
+import type { PhysicsQuery } from '../ai/perception';
+
+export interface Interactable {
+  id: string;
+  position: Vec3Like;
+  prompt: () => string | null;    // null 이면 지금은 상호작용 불가 (이미 주운 픽업 등)
+  interact: () => void;
+}
+
+export const INTERACT_RADIUS = 0.8;
+
+const byCollider = new Map<number, Interactable>();
+
+/** 등록 해제 함수를 돌려주므로 useEffect 의 cleanup 으로 그대로 쓸 수 있습니다. */
+export function registerInteractable(colliderHandle: number, interactable: Interactable) {
+  byCollider.set(colliderHandle, interactable);
+  return () => {
+    if (byCollider.get(colliderHandle) === interactable) byCollider.delete(colliderHandle);
+  };
+}
+
+export function findInteractable({ world, rapier }: PhysicsQuery, position: Vec3Like, radius = INTERACT_RADIUS): Interactable | null {
+  let nearest: Interactable | null = null;
+  let nearestDist = Infinity;
+  world.intersectionsWithShape(
+    position,
+    { x: 0, y: 0, z: 0, w: 1 },
+    new rapier.Ball(radius),
+    (collider) => {
+      const candidate = byCollider.get(collider.handle);
+      if (candidate && candidate.prompt() !== null) {
+        const dist = Math.hypot(candidate.position.x - position.x, candidate.position.z - position.z);
+        if (dist < nearestDist) {
+          nearest = candidate;
+          nearestDist = dist;
+        }
+      }
+      return true;
+    },
+    rapier.QueryFilterFlags.EXCLUDE_SOLIDS
+  );
+  return nearest;
+}
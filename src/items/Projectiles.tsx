@@ -0,0 +1,59 @@
+import { useRef } from 'react';
+import { BallCollider, RapierRigidBody, RigidBody } from '@react-three/rapier';
+import { useGameStore } from '../store';
+import { useFixedUpdate } from '../sim/simulationHooks';
+import { TICK_ORDER, TICK_RATE } from '../sim/fixedStep';
+import { Projectile, ROCK } from './gadgets';
+
+// 🪨 던진 돌
+// 충돌 이벤트는 프레임 단위로 모여서 오므로, 틱마다 속도 변화로 첫 충돌을 찾아 소음을 냅니다 (재현 가능).
+const Rock = ({ id, position, velocity }: Projectile) => {
+  const body = useRef<RapierRigidBody>(null);
+  const previousVelocity = useRef(velocity);
+  const hasLanded = useRef(false);
+  const ticksLeft = useRef(Math.round(ROCK.lifetime * TICK_RATE));
+
+  useFixedUpdate(() => {
+    if (!body.current) return;
+    const store = useGameStore.getState();
+    if (--ticksLeft.current <= 0) {
+      store.removeProjectile(id);
+      return;
+    }
+    const current = body.current.linvel();
+    const previous = previousVelocity.current;
+    previousVelocity.current = { x: current.x, y: current.y, z: current.z };
+    if (hasLanded.current) return;
+
+    const change = Math.hypot(current.x - previous.x, current.y - previous.y, current.z - previous.z);
+    if (change < ROCK.minImpactSpeed) return;
+    hasLanded.current = true;
+    const { x, y, z } = body.current.translation();
+    store.emitNoise({ kind: 'impact', position: { x, y, z }, ...ROCK.noise });
+  }, TICK_ORDER.player);
+
+  return (
+    <RigidBody
+      ref={body}
+      position={[position.x, position.y, position.z]}
+      linearVelocity={[velocity.x, velocity.y, velocity.z]}
+      colliders={false}
+      ccd
+    >
+      <BallCollider args={[ROCK.radius]} restitution={0.2} friction={1} />
+      <mesh castShadow>
+        <dodecahedronGeometry args={[ROCK.radius]} />
+        <meshStandardMaterial color="#777066" />
+      </mesh>
+    </RigidBody>
+  );
+};
+
+export const Projectiles = () => {
+  const projectiles = useGameStore((state) => state.projectiles);
+  return (
+    <>
+      {projectiles.map((projectile) => <Rock key={projectile.id} {...projectile} />)}
+    </>
+  );
+};
@@ -0,0 +1,66 @@
+// 🧨 가젯 효과
+// special 입력으로 장착한 가젯을 사용합니다. 사용에 성공하면 true 를 돌려주고, 호출하는 쪽이 하나를 소모합니다.
+
+import type { Vec3Like } from '../ai/guardBrain';
+import type { NoiseEvent } from '../ai/hearing';
+import type { ItemId } from './items';
+
+export const DECOY = {
+  throwDistance: 5,
+  noise: { radius: 10, loudness: 0.9 },
+};
+
+// 돌은 실제 강체로 날아가고, 떨어진 자리에서 소음을 냅니다 (Projectiles 참고).
+export const ROCK = {
+  radius: 0.1,
+  spawnHeight: 1.2,       // 발 기준
+  spawnAhead: 0.7,        // 던진 캐릭터 콜라이더와 겹치지 않도록
+  throwSpeed: 7,
+  throwLift: 3.5,
+  minImpactSpeed: 2,      // 한 틱 사이 속도가 이만큼 꺾이면 충돌로 봅니다
+  lifetime: 5,            // 초, 지나면 사라짐
+  noise: { radius: 9, loudness: 0.85 },
+};
+
+export interface Projectile {
+  id: number;
+  position: Vec3Like;
+  velocity: Vec3Like;
+}
+
+export interface GadgetContext {
+  position: Vec3Like;     // 플레이어 발 위치
+  facing: number;         // 플레이어 y 회전
+  emitNoise: (noise: Omit<NoiseEvent, 'id'>) => void;
+  throwProjectile: (projectile: Omit<Projectile, 'id'>) => void;
+}
+
+export function activateGadget(item: ItemId, { position, facing, emitNoise, throwProjectile }: GadgetContext): boolean {
+  const dirX = Math.sin(facing);
+  const dirZ = Math.cos(facing);
+  switch (item) {
+    case 'decoy':
+      emitNoise({
+        kind: 'impact',
+        position: {
+          x: position.x + dirX * DECOY.throwDistance,
+          y: position.y + 0.3,
+          z: position.z + dirZ * DECOY.throwDistance,
+        },
+        ...DECOY.noise,
+      });
+      return true;
+    case 'rock':
+      throwProjectile({
+        position: {
+          x: position.x + dirX * ROCK.spawnAhead,
+          y: position.y + ROCK.spawnHeight,
+          z: position.z + dirZ * ROCK.spawnAhead,
+        },
+        velocity: { x: dirX * ROCK.throwSpeed, y: ROCK.throwLift, z: dirZ * ROCK.throwSpeed },
+      });
+      return true;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,25 @@
+// 🎒 아이템 정의
+// key 는 소지만으로 효과(잠긴 문 열기), gadget 은 장착 후 special 입력으로 사용하며 하나씩 소모됩니다.
+// objective 는 임무 목표(수집)로만 쓰입니다.
+
+export type ItemId = 'keycard' | 'decoy' | 'rock' | 'intel';
+export type ItemKind = 'key' | 'gadget' | 'objective';
+
+export interface ItemDefinition {
+  name: string;
+  kind: ItemKind;
+  description: string;
+}
+
+export const ITEMS: Record<ItemId, ItemDefinition> = {
+  keycard: { name: 'Keycard', kind: 'key', description: 'Opens locked doors.' },
+  decoy: { name: 'Decoy', kind: 'gadget', description: 'Makes a loud noise a few meters ahead to lure guards.' },
+  rock: { name: 'Rock', kind: 'gadget', description: 'Throw it to lure nearby guards to where it lands.' },
+  intel: { name: 'Intel', kind: 'objective', description: 'Classified documents. Bring them to the extraction zone.' },
+};
+
+export const ITEM_IDS = Object.keys(ITEMS) as ItemId[];
+
+export const isItemId = (value: unknown): value is ItemId => ITEM_IDS.includes(value as ItemId);
+
+export type Inventory = Partial<Record<ItemId, number>>;
@@ -0,0 +1,50 @@
+// 🏋️ 성능 측정용 레벨 레이어: 1층 통로에 경비병을 격자로 촘촘히 세웁니다.
+// ?benchmark=60 처럼 URL 에 붙이면 레벨 데이터 위에 덮어씁니다. 시작 위치에서 가까운 열도 시야 밖이 되도록
+// 신입 프로필을 쓰므로, 가만히 서서 시야 표시/감지 비용만 잴 수 있습니다.
+
+import type { EnemySpawn, LevelData } from './levelData';
+
+export const BENCHMARK = {
+  minGuards: 1,
+  maxGuards: 200,
+  defaultGuards: 60,
+  origin: [-28, 0, 9.5] as const,   // 격자 시작 (x, y, z)
+  columnSpacing: 1.4,
+  rowSpacing: 1.25,
+  rows: 5,
+  patrolLength: 1,                  // 제자리에서 왕복하는 거리
+  patrolWait: 1,
+};
+
+/** URL 쿼리의 benchmark 값 → 경비병 수, 없으면 null. 값이 비어 있으면 기본 수를 씁니다. */
+export function readBenchmarkParam(search: string): number | null {
+  const value = new URLSearchParams(search).get('benchmark');
+  if (value === null) return null;
+  const count = value === '' ? BENCHMARK.defaultGuards : Number(value);
+  if (!Number.isFinite(count)) return null;
+  return Math.min(BENCHMARK.maxGuards, Math.max(BENCHMARK.minGuards, Math.round(count)));
+}
+
+/**
+ * 경비병 count 명을 격자로 세운 레이어. 원래 경비병/감시자와 목표는 비웁니다 (측정 중 임무가 끝나지 않도록).
+ * 스위치가 치운 카메라를 가리키지 않도록 상호작용 물체도 비웁니다.
+ */
+export function createBenchmarkLevel(count: number): Partial<LevelData> {
+  const [x0, y, z0] = BENCHMARK.origin;
+  const enemies: EnemySpawn[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = x0 + Math.floor(i / BENCHMARK.rows) * BENCHMARK.columnSpacing;
+    const z = z0 + (i % BENCHMARK.rows) * BENCHMARK.rowSpacing;
+    // 줄마다 반대 방향으로 걸어 시야가 여러 방향을 향하게 합니다.
+    const step = i % 2 === 0 ? BENCHMARK.patrolLength : -BENCHMARK.patrolLength;
+    enemies.push({
+      id: `bench_${i}`,
+      perception: 'rookie',
+      patrol: [
+        { position: [x, y, z], wait: BENCHMARK.patrolWait },
+        { position: [x + step, y, z], wait: BENCHMARK.patrolWait },
+      ],
+    });
+  }
+  return { enemies, cameras: [], sentries: [], objectives: [], interactables: [] };
+}
@@ -0,0 +1,275 @@
+// 🗺️ GLB 마커 → 레벨 데이터
+// Blender 에서 이름 붙인 Empty 로 배치를 정의합니다. 커스텀 속성(glTF extras)은 userData 로 들어옵니다.
+//   PlayerStart            플레이어 시작 위치
+//   Patrol_<경비병>_<순번>  순찰 웨이포인트 (예: Patrol_A_01), 속성 wait = 대기 시간(초),
+//                          perception = 지각 프로필 (웨이포인트 중 하나에만 있으면 됨)
+//   Bush_<이름>            수풀 볼륨, 속성 size = [가로, 높이, 세로] 또는 Empty 스케일 × 기본 크기
+//   Cover_<이름>           엄폐 볼륨, 속성 kind = grass / shadow / locker / lowWall, size 규칙은 Bush 와 동일
+//                          (기본 크기는 종류별)
+//   Checkpoint_<이름>      체크포인트 볼륨, size 규칙은 Bush 와 동일
+//   Door_<이름>            문, 속성 requires = 필요한 아이템, size 규칙은 Bush 와 동일, Empty 의 Y 회전을 따름
+//   Switch_<이름>          스위치, 속성 targets = 문 이름 목록 (배열 또는 쉼표 구분 문자열)
+//   Pickup_<이름>          줍는 아이템, 속성 item = 아이템 id, count = 개수
+//   Alarm_<이름>           경보 패널
+//   Lamp_<이름>            조명, 속성 radius / intensity / color (없으면 기본값)
+//   Extraction_<이름>      탈출 지점 볼륨, size 규칙은 Bush 와 동일 (임무 목표는 사이드카에서 정의)
+//   Character_<이름>       동료 캐릭터 시작 위치, 속성 character = 로스터 id (예: scout)
+//   SecurityCamera_<이름>  보안 카메라 렌즈 위치, 속성 yawMin / yawMax (없으면 Empty 의 Y 회전 ±45도),
+//                          sweepSpeed / pause / perception
+//   Sentry_<이름>          보초 위치, 속성 perception
+//   SentryLook_<보초>_<순번>  보초가 차례로 바라볼 지점, 속성 duration = 바라보는 시간(초)
+//                          (없으면 Sentry 마커의 정면을 계속 바라봄)
+
+import { Euler, Object3D, Quaternion, Vector3 } from 'three';
+import {
+  AlarmPanelSpawn,
+  CheckpointVolume,
+  CoverVolume,
+  DEFAULT_BUSH_SIZE,
+  DEFAULT_CAMERA,
+  DEFAULT_CHECKPOINT_SIZE,
+  DEFAULT_DOOR_SIZE,
+  DEFAULT_EXTRACTION_SIZE,
+  DEFAULT_LAMP,
+  DEFAULT_PATROL_WAIT,
+  DEFAULT_SENTRY_LOOK_DURATION,
+  EnemySpawn,
+  ExtractionZone,
+  InteractableSpawn,
+  LampSpawn,
+  LevelData,
+  LevelDataError,
+  PartySpawn,
+  PatrolWaypoint,
+  SecurityCameraSpawn,
+  SentryLookAt,
+  SentrySpawn,
+  Vec3Tuple,
+  assertSwitchTargets,
+} from './levelData';
+import { isItemId } from '../items/items';
+import { isCharacterId } from '../characters/roster';
+import { DEFAULT_PERCEPTION_PROFILE, PerceptionProfileId, isPerceptionProfileId } from '../ai/perceptionProfiles';
+import { COVER_RULES, DEFAULT_COVER_KIND, isCoverKind } from '../cover/cover';
+
+const PATROL_PATTERN = /^Patrol_([A-Za-z0-9]+)_(\d+)$/;
+const BUSH_PATTERN = /^Bush_/;
+const COVER_PATTERN = /^Cover_/;
+const CHECKPOINT_PATTERN = /^Checkpoint_/;
+const DOOR_PATTERN = /^Door_/;
+const SWITCH_PATTERN = /^Switch_/;
+const PICKUP_PATTERN = /^Pickup_/;
+const ALARM_PATTERN = /^Alarm_/;
+const EXTRACTION_PATTERN = /^Extraction_/;
+const LAMP_PATTERN = /^Lamp_/;
+const CHARACTER_PATTERN = /^Character_/;
+const CAMERA_PATTERN = /^SecurityCamera_/;
+const SENTRY_PATTERN = /^Sentry_([A-Za-z0-9]+)$/;
+const SENTRY_LOOK_PATTERN = /^SentryLook_([A-Za-z0-9]+)_(\d+)$/;
+const DEFAULT_CAMERA_SWEEP = 90;
+
+const markerYaw = (node: Object3D) => new Euler().setFromQuaternion(node.getWorldQuaternion(new Quaternion()), 'YXZ').y;
+
+function readMarkerPerception(node: Object3D, fallback: PerceptionProfileId): PerceptionProfileId {
+  const perception = node.userData.perception ?? fallback;
+  if (!isPerceptionProfileId(perception)) {
+    throw new LevelDataError(`${node.name}.perception`, `unknown perception profile ${JSON.stringify(perception)}`);
+  }
+  return perception;
+}
+
+function readMarkerCamera(node: Object3D, position: Vec3Tuple): SecurityCameraSpawn {
+  const center = markerYaw(node) * 180 / Math.PI;
+  const {
+    yawMin = center - DEFAULT_CAMERA_SWEEP / 2,
+    yawMax = center + DEFAULT_CAMERA_SWEEP / 2,
+    sweepSpeed = DEFAULT_CAMERA.sweepSpeed,
+    pause = DEFAULT_CAMERA.pause,
+  } = node.userData;
+  if (typeof yawMin !== 'number' || typeof yawMax !== 'number' || yawMax < yawMin) {
+    throw new LevelDataError(`${node.name}.yawMax`, 'yawMin / yawMax must be numbers with yawMin <= yawMax');
+  }
+  if (typeof sweepSpeed !== 'number' || sweepSpeed <= 0) throw new LevelDataError(`${node.name}.sweepSpeed`, 'must be a positive number');
+  if (typeof pause !== 'number' || pause < 0) throw new LevelDataError(`${node.name}.pause`, 'must be a non-negative number');
+  return { id: node.name, position, yawMin, yawMax, sweepSpeed, pause, perception: readMarkerPerception(node, DEFAULT_CAMERA.perception) };
+}
+
+// Empty 의 size 속성, 없으면 월드 스케일 × 기본 크기
+function readMarkerSize(node: Object3D, defaultSize: Vec3Tuple): Vec3Tuple {
+  const scale = node.getWorldScale(new Vector3());
+  const size = node.userData.size ?? [defaultSize[0] * scale.x, defaultSize[1] * scale.y, defaultSize[2] * scale.z];
+  if (!Array.isArray(size) || size.length !== 3 || size.some((v) => typeof v !== 'number' || v <= 0)) {
+    throw new LevelDataError(`${node.name}.size`, 'must be an array of three positive numbers');
+  }
+  return size as Vec3Tuple;
+}
+
+function readMarkerInteractable(node: Object3D, position: Vec3Tuple): InteractableSpawn | null {
+  if (DOOR_PATTERN.test(node.name)) {
+    const requires = node.userData.requires ?? null;
+    if (requires !== null && !isItemId(requires)) throw new LevelDataError(`${node.name}.requires`, `unknown item ${JSON.stringify(requires)}`);
+    return { kind: 'door', id: node.name, position, size: readMarkerSize(node, DEFAULT_DOOR_SIZE), rotationY: markerYaw(node), requires };
+  }
+  if (SWITCH_PATTERN.test(node.name)) {
+    const raw = node.userData.targets ?? [];
+    const targets = typeof raw === 'string' ? raw.split(',').map((t) => t.trim()).filter(Boolean) : raw;
+    if (!Array.isArray(targets) || !targets.every((t) => typeof t === 'string')) {
+      throw new LevelDataError(`${node.name}.targets`, 'must be a list of door or camera names');
+    }
+    return { kind: 'switch', id: node.name, position, targets };
+  }
+  if (PICKUP_PATTERN.test(node.name)) {
+    const { item, count = 1 } = node.userData;
+    if (!isItemId(item)) throw new LevelDataError(`${node.name}.item`, `unknown item ${JSON.stringify(item)}`);
+    if (!Number.isInteger(count) || count < 1) throw new LevelDataError(`${node.name}.count`, 'must be a positive integer');
+    return { kind: 'pickup', id: node.name, position, item, count };
+  }
+  return null;
+}
+
+export function extractGltfLevelData(scene: Object3D): Partial<LevelData> {
+  scene.updateWorldMatrix(true, true);
+
+  const result: Partial<LevelData> = {};
+  const patrols = new Map<string, { order: number; waypoint: PatrolWaypoint }[]>();
+  const perceptions = new Map<string, PerceptionProfileId>();
+  const bushes: CoverVolume[] = [];
+  const checkpoints: CheckpointVolume[] = [];
+  const interactables: InteractableSpawn[] = [];
+  const alarmPanels: AlarmPanelSpawn[] = [];
+  const extractionZones: ExtractionZone[] = [];
+  const lamps: LampSpawn[] = [];
+  const party: PartySpawn[] = [];
+  const cameras: SecurityCameraSpawn[] = [];
+  const sentries = new Map<string, { node: Object3D; position: Vec3Tuple }>();
+  const sentryLooks = new Map<string, { order: number; lookAt: SentryLookAt }[]>();
+
+  scene.traverse((node) => {
+    const position = node.getWorldPosition(new Vector3());
+    const tuple: Vec3Tuple = [position.x, position.y, position.z];
+
+    if (node.name === 'PlayerStart') {
+      result.playerStart = tuple;
+      return;
+    }
+
+    const patrol = PATROL_PATTERN.exec(node.name);
+    if (patrol) {
+      const wait = node.userData.wait ?? DEFAULT_PATROL_WAIT;
+      if (typeof wait !== 'number' || wait < 0) {
+        throw new LevelDataError(`${node.name}.wait`, 'must be a non-negative number');
+      }
+      const perception = node.userData.perception;
+      if (perception !== undefined) {
+        if (!isPerceptionProfileId(perception)) {
+          throw new LevelDataError(`${node.name}.perception`, `unknown perception profile ${JSON.stringify(perception)}`);
+        }
+        perceptions.set(patrol[1], perception);
+      }
+      const list = patrols.get(patrol[1]) ?? [];
+      list.push({ order: Number(patrol[2]), waypoint: { position: tuple, wait } });
+      patrols.set(patrol[1], list);
+      return;
+    }
+
+    if (BUSH_PATTERN.test(node.name)) {
+      bushes.push({ id: node.name, kind: 'grass', position: tuple, size: readMarkerSize(node, DEFAULT_BUSH_SIZE) });
+      return;
+    }
+
+    if (COVER_PATTERN.test(node.name)) {
+      const kind = node.userData.kind ?? DEFAULT_COVER_KIND;
+      if (!isCoverKind(kind)) throw new LevelDataError(`${node.name}.kind`, `unknown cover kind ${JSON.stringify(kind)}`);
+      bushes.push({ id: node.name, kind, position: tuple, size: readMarkerSize(node, COVER_RULES[kind].defaultSize) });
+      return;
+    }
+
+    if (CHECKPOINT_PATTERN.test(node.name)) {
+      checkpoints.push({ id: node.name, position: tuple, size: readMarkerSize(node, DEFAULT_CHECKPOINT_SIZE) });
+      return;
+    }
+
+    if (EXTRACTION_PATTERN.test(node.name)) {
+      extractionZones.push({ id: node.name, position: tuple, size: readMarkerSize(node, DEFAULT_EXTRACTION_SIZE) });
+      return;
+    }
+
+    if (LAMP_PATTERN.test(node.name)) {
+      const { radius = DEFAULT_LAMP.radius, intensity = DEFAULT_LAMP.intensity, color = DEFAULT_LAMP.color } = node.userData;
+      if (typeof radius !== 'number' || radius <= 0) throw new LevelDataError(`${node.name}.radius`, 'must be a positive number');
+      if (typeof intensity !== 'number' || intensity < 0) throw new LevelDataError(`${node.name}.intensity`, 'must be a non-negative number');
+      if (typeof color !== 'string') throw new LevelDataError(`${node.name}.color`, 'must be a CSS color string');
+      lamps.push({ id: node.name, position: tuple, radius, intensity, color });
+      return;
+    }
+
+    if (ALARM_PATTERN.test(node.name)) {
+      alarmPanels.push({ id: node.name, position: tuple });
+      return;
+    }
+
+    if (CAMERA_PATTERN.test(node.name)) {
+      cameras.push(readMarkerCamera(node, tuple));
+      return;
+    }
+
+    const sentry = SENTRY_PATTERN.exec(node.name);
+    if (sentry) {
+      sentries.set(sentry[1], { node, position: tuple });
+      return;
+    }
+
+    const sentryLook = SENTRY_LOOK_PATTERN.exec(node.name);
+    if (sentryLook) {
+      const duration = node.userData.duration ?? DEFAULT_SENTRY_LOOK_DURATION;
+      if (typeof duration !== 'number' || duration <= 0) throw new LevelDataError(`${node.name}.duration`, 'must be a positive number');
+      const list = sentryLooks.get(sentryLook[1]) ?? [];
+      list.push({ order: Number(sentryLook[2]), lookAt: { target: tuple, duration } });
+      sentryLooks.set(sentryLook[1], list);
+      return;
+    }
+
+    if (CHARACTER_PATTERN.test(node.name)) {
+      const { character } = node.userData;
+      if (!isCharacterId(character)) throw new LevelDataError(`${node.name}.character`, `unknown character ${JSON.stringify(character)}`);
+      party.push({ id: node.name, character, position: tuple });
+      return;
+    }
+
+    const interactable = readMarkerInteractable(node, tuple);
+    if (interactable) interactables.push(interactable);
+  });
+
+  if (patrols.size > 0) {
+    result.enemies = [...patrols.entries()].map(([key, points]): EnemySpawn => ({
+      id: `guard_${key.toLowerCase()}`,
+      patrol: points.sort((a, b) => a.order - b.order).map((p) => p.waypoint),
+      perception: perceptions.get(key) ?? DEFAULT_PERCEPTION_PROFILE,
+    }));
+  }
+  if (bushes.length > 0) result.bushes = bushes;
+  if (checkpoints.length > 0) result.checkpoints = checkpoints;
+  if (interactables.length > 0) {
+    // 카메라 마커가 없으면 사이드카/기본 배치의 카메라를 가리킬 수 있어 합친 뒤(resolveLevelData) 확인합니다.
+    if (cameras.length > 0) assertSwitchTargets(interactables, 'glb', cameras);
+    result.interactables = interactables;
+  }
+  if (alarmPanels.length > 0) result.alarmPanels = alarmPanels;
+  if (extractionZones.length > 0) result.extractionZones = extractionZones;
+  if (lamps.length > 0) result.lamps = lamps;
+  if (party.length > 0) result.party = party;
+  if (cameras.length > 0) result.cameras = cameras;
+  if (sentries.size > 0) {
+    result.sentries = [...sentries.entries()].map(([key, { node, position }]): SentrySpawn => {
+      const yaw = markerYaw(node);
+      const looks = (sentryLooks.get(key) ?? []).sort((a, b) => a.order - b.order).map((l) => l.lookAt);
+      const ahead: SentryLookAt = {
+        target: [position[0] + Math.sin(yaw), position[1], position[2] + Math.cos(yaw)],
+        duration: DEFAULT_SENTRY_LOOK_DURATION,
+      };
+      return { id: node.name, position, lookAt: looks.length > 0 ? looks : [ahead], perception: readMarkerPerception(node, DEFAULT_PERCEPTION_PROFILE) };
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,47 @@
+// 🧪 레벨 레이어 합치기: 레이어마다 목록을 통째로 바꿔도 합친 결과는 항상 쓸 수 있어야 합니다.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExtractionZone, FALLBACK_LEVEL, InteractableSpawn, SecurityCameraSpawn, resolveLevelData } from './levelData';
+
+const switchTargets = (interactables: InteractableSpawn[], id: string) => {
+  const item = interactables.find((candidate) => candidate.id === id);
+  return item?.kind === 'switch' ? item.targets : undefined;
+};
+
+describe('resolveLevelData', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('keeps the fallback level intact', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(resolveLevelData()).toEqual(FALLBACK_LEVEL);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('drops switch targets whose camera another layer replaced instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // SecurityCamera_* 마커만 있고 Switch_* 마커는 없는 GLB
+    const glbCamera: SecurityCameraSpawn = { ...FALLBACK_LEVEL.cameras[0], id: 'camera_glb' };
+    const level = resolveLevelData({ cameras: [glbCamera] });
+
+    expect(level.cameras).toEqual([glbCamera]);
+    expect(switchTargets(level.interactables, 'switch_cameras')).toEqual([]);
+    expect(switchTargets(level.interactables, 'switch_1')).toEqual(['door_1']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no door or camera with id "camera_1"'));
+  });
+
+  it('drops extract objectives whose zone another layer replaced', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const zone: ExtractionZone = { ...FALLBACK_LEVEL.extractionZones[0], id: 'extraction_glb' };
+    const level = resolveLevelData({ extractionZones: [zone] });
+
+    expect(level.objectives.map((objective) => objective.id)).toEqual(['steal_intel', 'ghost']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no extraction zone with id "extraction_1"'));
+  });
+
+  it('keeps extract objectives that point at the replacing layer\'s zones', () => {
+    const zone: ExtractionZone = { ...FALLBACK_LEVEL.extractionZones[0], id: 'extraction_glb' };
+    const objectives = FALLBACK_LEVEL.objectives.map((objective) =>
+      objective.kind === 'extract' ? { ...objective, zone: zone.id } : objective);
+    expect(resolveLevelData({ extractionZones: [zone] }, { objectives }).objectives).toEqual(objectives);
+  });
+});
@@ -0,0 +1,594 @@
+// 🗺️ 레벨 데이터 스키마
+// 적 스폰/순찰 경로, 엄폐 볼륨(수풀/그림자/사물함/낮은 벽), 체크포인트, 상호작용 오브젝트, 경보 패널, 조명, 임무 목표/탈출 지점,
+// 플레이어 시작 위치와 동료 캐릭터를 코드 밖에서 정의하기 위한 형식입니다.
+// GLB 의 이름 붙은 Empty 또는 사이드카 JSON 파일에서 읽어 들입니다.
+
+import { ItemId, isItemId } from '../items/items';
+import { CharacterId, isCharacterId } from '../characters/roster';
+import { DEFAULT_PERCEPTION_PROFILE, PerceptionProfileId, isPerceptionProfileId } from '../ai/perceptionProfiles';
+import { COVER_KINDS, COVER_RULES, CoverKind, DEFAULT_COVER_KIND, isCoverKind } from '../cover/cover';
+
+export type Vec3Tuple = [number, number, number];
+
+export interface PatrolWaypoint {
+  position: Vec3Tuple;
+  wait: number;             // 도착 후 대기 시간 (초)
+}
+
+export interface EnemySpawn {
+  id: string;
+  patrol: PatrolWaypoint[]; // 첫 웨이포인트가 스폰 위치
+  perception: PerceptionProfileId;
+}
+
+export interface CoverVolume {
+  id: string;
+  kind: CoverKind;
+  position: Vec3Tuple;      // 바닥 중심
+  size: Vec3Tuple;          // 가로 / 높이 / 세로
+}
+
+export interface CheckpointVolume {
+  id: string;
+  position: Vec3Tuple;      // 바닥 중심
+  size: Vec3Tuple;
+}
+
+export interface DoorSpawn {
+  kind: 'door';
+  id: string;
+  position: Vec3Tuple;      // 바닥 중심
+  size: Vec3Tuple;          // 가로 / 높이 / 두께
+  rotationY: number;
+  requires: ItemId | null;  // 열 때 필요한 아이템 (잠긴 문)
+}
+
+export interface SwitchSpawn {
+  kind: 'switch';
+  id: string;
+  position: Vec3Tuple;
+  targets: string[];        // 여닫을 문 / 끌 보안 카메라 id
+}
+
+export interface PickupSpawn {
+  kind: 'pickup';
+  id: string;
+  position: Vec3Tuple;
+  item: ItemId;
+  count: number;
+}
+
+export type InteractableSpawn = DoorSpawn | SwitchSpawn | PickupSpawn;
+
+// 플레이어를 발견한 경비병이 달려가 전역 경보를 울리는 곳
+export interface AlarmPanelSpawn {
+  id: string;
+  position: Vec3Tuple;      // 바닥 기준
+}
+
+// 좌우로 훑는 보안 카메라. 스위치 targets 에 id 를 넣으면 그 스위치로 끌 수 있습니다.
+// 각도는 도 단위, +Z 방향이 0 / +X 방향이 90 입니다.
+export interface SecurityCameraSpawn {
+  id: string;
+  position: Vec3Tuple;      // 렌즈 위치
+  yawMin: number;
+  yawMax: number;
+  sweepSpeed: number;       // 도/초
+  pause: number;            // 양 끝에서 멈추는 시간 (초)
+  perception: PerceptionProfileId;
+}
+
+export interface SentryLookAt {
+  target: Vec3Tuple;
+  duration: number;         // 이 지점을 바라보는 시간 (초)
+}
+
+// 제자리에 서서 바라볼 지점을 차례로 돌아보는 보초
+export interface SentrySpawn {
+  id: string;
+  position: Vec3Tuple;      // 발 위치
+  lookAt: SentryLookAt[];
+  perception: PerceptionProfileId;
+}
+
+// 플레이어 노출도에 더해지는 국소 조명 (가로등 등)
+export interface LampSpawn {
+  id: string;
+  position: Vec3Tuple;      // 광원 위치
+  radius: number;           // 빛이 닿는 거리
+  intensity: number;        // 광원 바로 옆에서 더해지는 노출도 0 ~ 1
+  color: string;
+}
+
+export interface ExtractionZone {
+  id: string;
+  position: Vec3Tuple;      // 바닥 중심
+  size: Vec3Tuple;
+}
+
+// 임무 목표. optional 목표는 실패해도 임무는 계속되고 평가에만 반영됩니다.
+interface ObjectiveBase {
+  id: string;
+  label: string;
+  optional: boolean;
+}
+
+export interface CollectObjective extends ObjectiveBase {
+  kind: 'collect';
+  item: ItemId;
+  count: number;
+}
+
+// 나머지 필수 목표를 끝낸 뒤 탈출 지점에 들어가면 완료
+export interface ExtractObjective extends ObjectiveBase {
+  kind: 'extract';
+  zone: string;
+}
+
+// 한 번이라도 경비병에게 발각되면 실패
+export interface UndetectedObjective extends ObjectiveBase {
+  kind: 'undetected';
+}
+
+export type ObjectiveDefinition = CollectObjective | ExtractObjective | UndetectedObjective;
+
+// 플레이어 시작 위치의 주인공 외에 switchChar 로 넘겨받을 수 있는 캐릭터
+export interface PartySpawn {
+  id: string;
+  character: CharacterId;
+  position: Vec3Tuple;
+}
+
+export interface LevelData {
+  playerStart: Vec3Tuple;
+  enemies: EnemySpawn[];
+  bushes: CoverVolume[];    // 종류와 상관없이 모든 엄폐 볼륨 (사이드카 호환을 위해 이름 유지)
+  checkpoints: CheckpointVolume[];
+  interactables: InteractableSpawn[];
+  alarmPanels: AlarmPanelSpawn[];
+  cameras: SecurityCameraSpawn[];
+  sentries: SentrySpawn[];
+  lamps: LampSpawn[];
+  extractionZones: ExtractionZone[];
+  objectives: ObjectiveDefinition[];
+  party: PartySpawn[];
+}
+
+// 사이드카 파일은 일부 항목만 덮어쓸 수 있습니다.
+export interface LevelDataFile extends Partial<LevelData> {
+  version: 1;
+}
+
+export const LEVEL_DATA_VERSION = 1;
+export const DEFAULT_PATROL_WAIT = 2;
+export const DEFAULT_BUSH_SIZE: Vec3Tuple = [2, 1.5, 2];
+export const DEFAULT_CHECKPOINT_SIZE: Vec3Tuple = [3, 2, 3];
+export const DEFAULT_DOOR_SIZE: Vec3Tuple = [2, 2.4, 0.2];
+export const DEFAULT_EXTRACTION_SIZE: Vec3Tuple = [3, 2, 3];
+export const DEFAULT_CAMERA: Omit<SecurityCameraSpawn, 'id' | 'position' | 'yawMin' | 'yawMax'> = {
+  sweepSpeed: 20,
+  pause: 1.5,
+  perception: 'camera',
+};
+export const DEFAULT_SENTRY_LOOK_DURATION = 3;
+export const DEFAULT_LAMP: Omit<LampSpawn, 'id' | 'position'> = { radius: 6, intensity: 0.8, color: '#ffd9a0' };
+
+// 마커도 사이드카도 없을 때 사용하는 기본 배치
+export const FALLBACK_LEVEL: LevelData = {
+  playerStart: [-38.5, 1.2, 11],
+  enemies: [
+    {
+      id: 'guard_a',
+      perception: 'veteran',
+      patrol: [
+        { position: [-11, 5, 20], wait: DEFAULT_PATROL_WAIT },
+        { position: [-8.5, 5, 15.2], wait: DEFAULT_PATROL_WAIT },
+        { position: [-4.2, 5, 16], wait: DEFAULT_PATROL_WAIT },
+        { position: [-6, 5, 24], wait: DEFAULT_PATROL_WAIT },
+      ],
+    },
+    {
+      id: 'guard_b',
+      perception: 'rookie',
+      patrol: [
+        { position: [-16.5, 5, 13.0], wait: DEFAULT_PATROL_WAIT },
+        { position: [-9.4, 5, 13.1], wait: DEFAULT_PATROL_WAIT },
+      ],
+    },
+  ],
+  bushes: [
+    { id: 'bush_1', kind: 'grass', position: [-15, 0, 15], size: DEFAULT_BUSH_SIZE },
+    { id: 'bush_2', kind: 'grass', position: [-26, 0, 10], size: DEFAULT_BUSH_SIZE },
+    { id: 'shadow_1', kind: 'shadow', position: [-23, 0, 9.8], size: [2.5, 2.5, 1.6] },
+    { id: 'locker_1', kind: 'locker', position: [-29, 0, 14.4], size: COVER_RULES.locker.defaultSize },
+  ],
+  checkpoints: [
+    { id: 'checkpoint_1', position: [-31, 0, 10.5], size: DEFAULT_CHECKPOINT_SIZE },
+  ],
+  interactables: [
+    { kind: 'pickup', id: 'pickup_decoy', position: [-34, 0, 12.5], item: 'decoy', count: 2 },
+    { kind: 'pickup', id: 'pickup_intel', position: [-6, 5, 24], item: 'intel', count: 1 },
+    { kind: 'pickup', id: 'pickup_rocks', position: [-35, 0, 9.5], item: 'rock', count: 3 },
+    { kind: 'pickup', id: 'pickup_keycard', position: [-24, 0, 12], item: 'keycard', count: 1 },
+    { kind: 'door', id: 'door_1', position: [-20, 0, 11], size: DEFAULT_DOOR_SIZE, rotationY: Math.PI / 2, requires: 'keycard' },
+    { kind: 'switch', id: 'switch_1', position: [-21, 0, 14], targets: ['door_1'] },
+    { kind: 'switch', id: 'switch_cameras', position: [-13, 5, 21], targets: ['camera_1'] },
+  ],
+  alarmPanels: [
+    { id: 'alarm_1', position: [-13, 5, 13.1] },
+  ],
+  cameras: [
+    { id: 'camera_1', position: [-17.5, 7.5, 13], yawMin: 60, yawMax: 120, ...DEFAULT_CAMERA },
+  ],
+  sentries: [
+    {
+      id: 'sentry_1',
+      position: [-5, 5, 20],
+      perception: 'veteran',
+      lookAt: [
+        { target: [-11, 5, 20], duration: DEFAULT_SENTRY_LOOK_DURATION },
+        { target: [-6, 5, 24], duration: DEFAULT_SENTRY_LOOK_DURATION },
+      ],
+    },
+  ],
+  lamps: [
+    { id: 'lamp_1', position: [-28, 2.5, 12], ...DEFAULT_LAMP },
+    { id: 'lamp_2', position: [-8, 7.5, 17], ...DEFAULT_LAMP },
+  ],
+  extractionZones: [
+    { id: 'extraction_1', position: [-38.5, 0, 11], size: DEFAULT_EXTRACTION_SIZE },
+  ],
+  objectives: [
+    { kind: 'collect', id: 'steal_intel', label: 'Steal the intel', optional: false, item: 'intel', count: 1 },
+    { kind: 'extract', id: 'extract', label: 'Return to the extraction zone', optional: false, zone: 'extraction_1' },
+    { kind: 'undetected', id: 'ghost', label: 'Stay undetected', optional: true },
+  ],
+  party: [
+    { id: 'scout_1', character: 'scout', position: [-37, 1.2, 13] },
+  ],
+};
+
+// 시작 위치의 주인공 id. 동료 id 와 겹치면 안 됩니다.
+export const PLAYER_CHARACTER_ID = 'player';
+
+export class LevelDataError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'LevelDataError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readVec3(value: unknown, path: string): Vec3Tuple {
+  if (!Array.isArray(value) || value.length !== 3 || !value.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+    throw new LevelDataError(path, 'must be an array of three finite numbers');
+  }
+  return [value[0], value[1], value[2]];
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new LevelDataError(path, 'must be an array');
+  return value;
+}
+
+function readId(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) throw new LevelDataError(path, 'must be a non-empty string');
+  return value;
+}
+
+function readWaypoint(value: unknown, path: string): PatrolWaypoint {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const wait = value.wait ?? DEFAULT_PATROL_WAIT;
+  if (typeof wait !== 'number' || !Number.isFinite(wait) || wait < 0) {
+    throw new LevelDataError(`${path}.wait`, 'must be a non-negative number');
+  }
+  return { position: readVec3(value.position, `${path}.position`), wait };
+}
+
+function readEnemy(value: unknown, path: string): EnemySpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const patrol = readArray(value.patrol, `${path}.patrol`).map((p, i) => readWaypoint(p, `${path}.patrol[${i}]`));
+  if (patrol.length === 0) throw new LevelDataError(`${path}.patrol`, 'must contain at least one waypoint');
+  const perception = readPerception(value.perception, `${path}.perception`, DEFAULT_PERCEPTION_PROFILE);
+  return { id: readId(value.id, `${path}.id`), patrol, perception };
+}
+
+function readVolume(value: unknown, path: string, defaultSize: Vec3Tuple) {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const size = value.size === undefined ? defaultSize : readVec3(value.size, `${path}.size`);
+  if (size.some((v) => v <= 0)) throw new LevelDataError(`${path}.size`, 'must be positive');
+  return { id: readId(value.id, `${path}.id`), position: readVec3(value.position, `${path}.position`), size };
+}
+
+function readInteractable(value: unknown, path: string): InteractableSpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const id = readId(value.id, `${path}.id`);
+  const position = readVec3(value.position, `${path}.position`);
+  switch (value.kind) {
+    case 'door': {
+      const { size } = readVolume(value, path, DEFAULT_DOOR_SIZE);
+      const rotationY = value.rotationY ?? 0;
+      if (typeof rotationY !== 'number' || !Number.isFinite(rotationY)) throw new LevelDataError(`${path}.rotationY`, 'must be a finite number');
+      const requires = value.requires ?? null;
+      if (requires !== null && !isItemId(requires)) throw new LevelDataError(`${path}.requires`, `unknown item ${JSON.stringify(requires)}`);
+      return { kind: 'door', id, position, size, rotationY, requires };
+    }
+    case 'switch': {
+      const targets = readArray(value.targets, `${path}.targets`).map((t, i) => readId(t, `${path}.targets[${i}]`));
+      return { kind: 'switch', id, position, targets };
+    }
+    case 'pickup': {
+      if (!isItemId(value.item)) throw new LevelDataError(`${path}.item`, `unknown item ${JSON.stringify(value.item)}`);
+      const count = value.count ?? 1;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) throw new LevelDataError(`${path}.count`, 'must be a positive integer');
+      return { kind: 'pickup', id, position, item: value.item, count };
+    }
+    default:
+      throw new LevelDataError(`${path}.kind`, 'must be "door", "switch" or "pickup"');
+  }
+}
+
+const switchTargetIds = (interactables: InteractableSpawn[], cameras: SecurityCameraSpawn[]) =>
+  new Set([...interactables.filter((i) => i.kind === 'door'), ...cameras].map((i) => i.id));
+
+/** 스위치 대상은 같은 목록의 문 또는 cameras 의 보안 카메라여야 합니다. */
+export function assertSwitchTargets(interactables: InteractableSpawn[], path: string, cameras: SecurityCameraSpawn[] = []) {
+  const targets = switchTargetIds(interactables, cameras);
+  interactables.forEach((item, i) => {
+    if (item.kind !== 'switch') return;
+    item.targets.forEach((target, t) => {
+      if (!targets.has(target)) throw new LevelDataError(`${path}[${i}].targets[${t}]`, `no door or camera with id "${target}"`);
+    });
+  });
+}
+
+function readAlarmPanel(value: unknown, path: string): AlarmPanelSpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  return { id: readId(value.id, `${path}.id`), position: readVec3(value.position, `${path}.position`) };
+}
+
+function readPerception(value: unknown, path: string, fallback: PerceptionProfileId): PerceptionProfileId {
+  const perception = value ?? fallback;
+  if (!isPerceptionProfileId(perception)) throw new LevelDataError(path, `unknown perception profile ${JSON.stringify(perception)}`);
+  return perception;
+}
+
+function readCamera(value: unknown, path: string): SecurityCameraSpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const { yawMin, yawMax, sweepSpeed = DEFAULT_CAMERA.sweepSpeed, pause = DEFAULT_CAMERA.pause } = value;
+  if (typeof yawMin !== 'number' || !Number.isFinite(yawMin)) throw new LevelDataError(`${path}.yawMin`, 'must be a finite number');
+  if (typeof yawMax !== 'number' || !Number.isFinite(yawMax) || yawMax < yawMin) {
+    throw new LevelDataError(`${path}.yawMax`, 'must be a finite number not less than yawMin');
+  }
+  if (typeof sweepSpeed !== 'number' || !Number.isFinite(sweepSpeed) || sweepSpeed <= 0) throw new LevelDataError(`${path}.sweepSpeed`, 'must be a positive number');
+  if (typeof pause !== 'number' || !Number.isFinite(pause) || pause < 0) throw new LevelDataError(`${path}.pause`, 'must be a non-negative number');
+  return {
+    id: readId(value.id, `${path}.id`),
+    position: readVec3(value.position, `${path}.position`),
+    yawMin,
+    yawMax,
+    sweepSpeed,
+    pause,
+    perception: readPerception(value.perception, `${path}.perception`, DEFAULT_CAMERA.perception),
+  };
+}
+
+function readSentryLookAt(value: unknown, path: string): SentryLookAt {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const duration = value.duration ?? DEFAULT_SENTRY_LOOK_DURATION;
+  if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) throw new LevelDataError(`${path}.duration`, 'must be a positive number');
+  return { target: readVec3(value.target, `${path}.target`), duration };
+}
+
+function readSentry(value: unknown, path: string): SentrySpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const lookAt = readArray(value.lookAt, `${path}.lookAt`).map((l, i) => readSentryLookAt(l, `${path}.lookAt[${i}]`));
+  if (lookAt.length === 0) throw new LevelDataError(`${path}.lookAt`, 'must contain at least one point');
+  return {
+    id: readId(value.id, `${path}.id`),
+    position: readVec3(value.position, `${path}.position`),
+    lookAt,
+    perception: readPerception(value.perception, `${path}.perception`, DEFAULT_PERCEPTION_PROFILE),
+  };
+}
+
+function readLamp(value: unknown, path: string): LampSpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const { radius = DEFAULT_LAMP.radius, intensity = DEFAULT_LAMP.intensity, color = DEFAULT_LAMP.color } = value;
+  if (typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0) throw new LevelDataError(`${path}.radius`, 'must be a positive number');
+  if (typeof intensity !== 'number' || !Number.isFinite(intensity) || intensity < 0) throw new LevelDataError(`${path}.intensity`, 'must be a non-negative number');
+  if (typeof color !== 'string') throw new LevelDataError(`${path}.color`, 'must be a CSS color string');
+  return { id: readId(value.id, `${path}.id`), position: readVec3(value.position, `${path}.position`), radius, intensity, color };
+}
+
+function readObjective(value: unknown, path: string): ObjectiveDefinition {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const id = readId(value.id, `${path}.id`);
+  const label = readId(value.label, `${path}.label`);
+  const optional = value.optional ?? false;
+  if (typeof optional !== 'boolean') throw new LevelDataError(`${path}.optional`, 'must be a boolean');
+  switch (value.kind) {
+    case 'collect': {
+      if (!isItemId(value.item)) throw new LevelDataError(`${path}.item`, `unknown item ${JSON.stringify(value.item)}`);
+      const count = value.count ?? 1;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) throw new LevelDataError(`${path}.count`, 'must be a positive integer');
+      return { kind: 'collect', id, label, optional, item: value.item, count };
+    }
+    case 'extract':
+      return { kind: 'extract', id, label, optional, zone: readId(value.zone, `${path}.zone`) };
+    case 'undetected':
+      return { kind: 'undetected', id, label, optional };
+    default:
+      throw new LevelDataError(`${path}.kind`, 'must be "collect", "extract" or "undetected"');
+  }
+}
+
+/** 탈출 목표가 가리키는 탈출 지점이 있는지 확인합니다. */
+export function assertObjectiveZones(objectives: ObjectiveDefinition[], zones: ExtractionZone[], path: string) {
+  const ids = new Set(zones.map((zone) => zone.id));
+  objectives.forEach((objective, i) => {
+    if (objective.kind === 'extract' && !ids.has(objective.zone)) {
+      throw new LevelDataError(`${path}[${i}].zone`, `no extraction zone with id "${objective.zone}"`);
+    }
+  });
+}
+
+function readPartyMember(value: unknown, path: string): PartySpawn {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const id = readId(value.id, `${path}.id`);
+  if (id === PLAYER_CHARACTER_ID) throw new LevelDataError(`${path}.id`, `"${PLAYER_CHARACTER_ID}" is reserved for the player start`);
+  if (!isCharacterId(value.character)) throw new LevelDataError(`${path}.character`, `unknown character ${JSON.stringify(value.character)}`);
+  return { id, character: value.character, position: readVec3(value.position, `${path}.position`) };
+}
+
+function readCover(value: unknown, path: string): CoverVolume {
+  if (!isRecord(value)) throw new LevelDataError(path, 'must be an object');
+  const kind = value.kind ?? DEFAULT_COVER_KIND;
+  if (!isCoverKind(kind)) {
+    throw new LevelDataError(`${path}.kind`, `must be one of ${COVER_KINDS.map((k) => JSON.stringify(k)).join(', ')}`);
+  }
+  return { ...readVolume(value, path, COVER_RULES[kind].defaultSize), kind };
+}
+const readCheckpoint = (value: unknown, path: string): CheckpointVolume => readVolume(value, path, DEFAULT_CHECKPOINT_SIZE);
+const readExtractionZone = (value: unknown, path: string): ExtractionZone => readVolume(value, path, DEFAULT_EXTRACTION_SIZE);
+
+function assertUniqueIds(items: { id: string }[], path: string) {
+  const seen = new Set<string>();
+  items.forEach(({ id }, i) => {
+    if (seen.has(id)) throw new LevelDataError(`${path}[${i}].id`, `duplicate id "${id}"`);
+    seen.add(id);
+  });
+}
+
+/** 사이드카 JSON 을 검증합니다. 형식이 틀리면 위치가 담긴 LevelDataError 를 던집니다. */
+export function parseLevelDataFile(json: unknown, source = 'level'): LevelDataFile {
+  if (!isRecord(json)) throw new LevelDataError(source, 'must be a JSON object');
+  if (json.version !== LEVEL_DATA_VERSION) {
+    throw new LevelDataError(`${source}.version`, `must be ${LEVEL_DATA_VERSION} (got ${JSON.stringify(json.version)})`);
+  }
+
+  const file: LevelDataFile = { version: LEVEL_DATA_VERSION };
+  if (json.playerStart !== undefined) file.playerStart = readVec3(json.playerStart, `${source}.playerStart`);
+  if (json.enemies !== undefined) {
+    file.enemies = readArray(json.enemies, `${source}.enemies`).map((e, i) => readEnemy(e, `${source}.enemies[${i}]`));
+    assertUniqueIds(file.enemies, `${source}.enemies`);
+  }
+  if (json.bushes !== undefined) {
+    file.bushes = readArray(json.bushes, `${source}.bushes`).map((b, i) => readCover(b, `${source}.bushes[${i}]`));
+    assertUniqueIds(file.bushes, `${source}.bushes`);
+  }
+  if (json.checkpoints !== undefined) {
+    file.checkpoints = readArray(json.checkpoints, `${source}.checkpoints`).map((c, i) => readCheckpoint(c, `${source}.checkpoints[${i}]`));
+    assertUniqueIds(file.checkpoints, `${source}.checkpoints`);
+  }
+  // 스위치가 카메라를 끌 수 있으므로 카메라를 먼저 읽습니다.
+  if (json.cameras !== undefined) {
+    file.cameras = readArray(json.cameras, `${source}.cameras`).map((c, i) => readCamera(c, `${source}.cameras[${i}]`));
+    assertUniqueIds(file.cameras, `${source}.cameras`);
+  }
+  if (json.sentries !== undefined) {
+    file.sentries = readArray(json.sentries, `${source}.sentries`).map((e, i) => readSentry(e, `${source}.sentries[${i}]`));
+    assertUniqueIds(file.sentries, `${source}.sentries`);
+  }
+  if (json.interactables !== undefined) {
+    file.interactables = readArray(json.interactables, `${source}.interactables`).map((x, i) => readInteractable(x, `${source}.interactables[${i}]`));
+    assertUniqueIds(file.interactables, `${source}.interactables`);
+    // 카메라는 GLB 마커나 기본 배치에서 올 수도 있으므로 같은 파일에 있을 때만 여기서 확인하고, 나머지는 resolveLevelData 에서 합친 뒤 확인합니다.
+    if (file.cameras) assertSwitchTargets(file.interactables, `${source}.interactables`, file.cameras);
+  }
+  if (json.alarmPanels !== undefined) {
+    file.alarmPanels = readArray(json.alarmPanels, `${source}.alarmPanels`).map((a, i) => readAlarmPanel(a, `${source}.alarmPanels[${i}]`));
+    assertUniqueIds(file.alarmPanels, `${source}.alarmPanels`);
+  }
+  if (json.lamps !== undefined) {
+    file.lamps = readArray(json.lamps, `${source}.lamps`).map((l, i) => readLamp(l, `${source}.lamps[${i}]`));
+    assertUniqueIds(file.lamps, `${source}.lamps`);
+  }
+  if (json.extractionZones !== undefined) {
+    file.extractionZones = readArray(json.extractionZones, `${source}.extractionZones`).map((z, i) => readExtractionZone(z, `${source}.extractionZones[${i}]`));
+    assertUniqueIds(file.extractionZones, `${source}.extractionZones`);
+  }
+  if (json.objectives !== undefined) {
+    file.objectives = readArray(json.objectives, `${source}.objectives`).map((o, i) => readObjective(o, `${source}.objectives[${i}]`));
+    assertUniqueIds(file.objectives, `${source}.objectives`);
+    // 탈출 지점은 GLB 마커에서 올 수도 있으므로 같은 파일에 있을 때만 여기서 확인하고, 나머지는 resolveLevelData 에서 합친 뒤 확인합니다.
+    if (file.extractionZones) assertObjectiveZones(file.objectives, file.extractionZones, `${source}.objectives`);
+  }
+  if (json.party !== undefined) {
+    file.party = readArray(json.party, `${source}.party`).map((p, i) => readPartyMember(p, `${source}.party[${i}]`));
+    assertUniqueIds(file.party, `${source}.party`);
+  }
+  return file;
+}
+
+/**
+ * 사이드카 JSON 을 불러옵니다. 파일이 없으면 null, 형식 오류는 LevelDataError 로 reject 됩니다.
+ * (개발 서버는 없는 파일에 index.html 을 돌려주므로 content-type 으로 걸러냅니다.)
+ */
+export async function loadLevelDataFile(url: string): Promise<LevelDataFile | null> {
+  const res = await fetch(url);
+  if (!res.ok || !res.headers.get('content-type')?.includes('json')) return null;
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch (e) {
+    throw new LevelDataError(url, `invalid JSON (${(e as Error).message})`);
+  }
+  return parseLevelDataFile(json, url);
+}
+
+/**
+ * 합친 레벨에서 없는 문/카메라를 가리키는 스위치 대상을 경고하고 뺍니다.
+ * 레이어는 목록을 통째로 바꾸므로, GLB 가 카메라만 바꾸면 기본 배치의 스위치가 사라진 카메라를 가리킬 수 있습니다.
+ */
+function dropMissingSwitchTargets(interactables: InteractableSpawn[], cameras: SecurityCameraSpawn[]): InteractableSpawn[] {
+  const targets = switchTargetIds(interactables, cameras);
+  return interactables.map((item, i) => {
+    if (item.kind !== 'switch' || item.targets.every((target) => targets.has(target))) return item;
+    item.targets.forEach((target, t) => {
+      if (!targets.has(target)) console.warn(`🗺️ level.interactables[${i}].targets[${t}]: no door or camera with id "${target}", ignored`);
+    });
+    return { ...item, targets: item.targets.filter((target) => targets.has(target)) };
+  });
+}
+
+/**
+ * 합친 레벨에서 없는 탈출 지점을 가리키는 탈출 목표를 경고하고 뺍니다.
+ * 그대로 두면 GLB 가 탈출 지점만 바꿨을 때 기본 목표를 영영 달성할 수 없습니다.
+ */
+function dropMissingObjectiveZones(objectives: ObjectiveDefinition[], zones: ExtractionZone[]): ObjectiveDefinition[] {
+  const ids = new Set(zones.map((zone) => zone.id));
+  return objectives.filter((objective, i) => {
+    if (objective.kind !== 'extract' || ids.has(objective.zone)) return true;
+    console.warn(`🗺️ level.objectives[${i}].zone: no extraction zone with id "${objective.zone}", objective dropped`);
+    return false;
+  });
+}
+
+/**
+ * 기본값 ← GLB 마커 ← 사이드카 순으로 덮어써 최종 레벨 데이터를 만듭니다.
+ * 레이어끼리 끊긴 참조는 경고하고 빼므로 던지지 않습니다.
+ */
+export function resolveLevelData(...layers: (Partial<LevelData> | null | undefined)[]): LevelData {
+  const result: LevelData = { ...FALLBACK_LEVEL };
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.playerStart) result.playerStart = layer.playerStart;
+    if (layer.enemies) result.enemies = layer.enemies;
+    if (layer.bushes) result.bushes = layer.bushes;
+    if (layer.checkpoints) result.checkpoints = layer.checkpoints;
+    if (layer.interactables) result.interactables = layer.interactables;
+    if (layer.alarmPanels) result.alarmPanels = layer.alarmPanels;
+    if (layer.cameras) result.cameras = layer.cameras;
+    if (layer.sentries) result.sentries = layer.sentries;
+    if (layer.lamps) result.lamps = layer.lamps;
+    if (layer.extractionZones) result.extractionZones = layer.extractionZones;
+    if (layer.objectives) result.objectives = layer.objectives;
+    if (layer.party) result.party = layer.party;
+  }
+  result.interactables = dropMissingSwitchTargets(result.interactables, result.cameras);
+  result.objectives = dropMissingObjectiveZones(result.objectives, result.extractionZones);
+  return result;
+}
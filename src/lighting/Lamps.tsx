@@ -0,0 +1,18 @@
+import { LampSpawn } from '../level/levelData';
+
+// 💡 레벨 조명. 실제 노출도 계산은 lightExposure 에서 하고, 여기서는 보이는 빛만 그립니다.
+const Lamp = ({ position, radius, intensity, color }: LampSpawn) => (
+  <group position={position}>
+    <pointLight color={color} intensity={intensity * 12} distance={radius * 1.5} decay={2} />
+    <mesh>
+      <sphereGeometry args={[0.15, 12, 8]} />
+      <meshBasicMaterial color={color} />
+    </mesh>
+  </group>
+);
+
+export const Lamps = ({ lamps }: { lamps: LampSpawn[] }) => (
+  <>
+    {lamps.map((lamp) => <Lamp key={lamp.id} {...lamp} />)}
+  </>
+);
@@ -0,0 +1,60 @@
+// 💡 플레이어 조명 노출도
+// 방향광(해/달) 쪽으로 레이를 쏴 그림자 안인지 보고, 레벨의 국소 조명(가로등 등)은 거리 감쇠와 가림 여부로 더합니다.
+// 결과 0(완전한 어둠) ~ 1(밝음)은 경비병 감지 거리/속도와 HUD 의 라이트 젬에 쓰입니다.
+
+import type { RapierRigidBody } from '@react-three/rapier';
+import type { Vec3Like } from '../ai/guardBrain';
+import { PhysicsQuery, aimRay } from '../ai/perception';
+import type { LampSpawn, Vec3Tuple } from '../level/levelData';
+
+// 장면의 directionalLight 위치 (타깃은 원점). 그림자 판정 방향도 여기서 나옵니다.
+export const SUN_POSITION: Vec3Tuple = [50, 35, 15];
+
+export const LIGHTING = {
+  ambient: 0.15,            // 그늘에서도 남는 밝기
+  sun: 0.6,                 // 햇빛을 모두 받을 때 더해지는 양
+  sunRayLength: 80,
+  bodySamples: [0.4, 1.2],  // 발 기준 샘플 높이 (다리 / 가슴)
+};
+
+const sunLength = Math.hypot(...SUN_POSITION);
+const SUN_DIRECTION = { x: SUN_POSITION[0] / sunLength, y: SUN_POSITION[1] / sunLength, z: SUN_POSITION[2] / sunLength };
+
+// 매 틱 부르므로 샘플 지점은 돌려 쓰고, 레이는 perception 의 공용 레이를 씁니다.
+const scratchPoint: Vec3Like = { x: 0, y: 0, z: 0 };
+
+/** position(발 위치)에서의 노출도. 자기 강체는 exclude 로 넘겨 레이에서 제외합니다. */
+export function sampleLightExposure(
+  { world, rapier }: PhysicsQuery,
+  position: Vec3Like,
+  lamps: LampSpawn[],
+  exclude?: RapierRigidBody
+): number {
+  const flags = rapier.QueryFilterFlags.EXCLUDE_SENSORS;
+  let light = LIGHTING.ambient;
+
+  let sunlit = 0;
+  for (const height of LIGHTING.bodySamples) {
+    scratchPoint.x = position.x;
+    scratchPoint.y = position.y + height;
+    scratchPoint.z = position.z;
+    const ray = aimRay(rapier, scratchPoint, SUN_DIRECTION.x, SUN_DIRECTION.y, SUN_DIRECTION.z);
+    if (!world.castRay(ray, LIGHTING.sunRayLength, true, flags, undefined, undefined, exclude)) sunlit++;
+  }
+  light += LIGHTING.sun * sunlit / LIGHTING.bodySamples.length;
+
+  // 국소 조명은 가슴 높이 한 점으로 충분합니다.
+  const chest = scratchPoint;
+  chest.x = position.x;
+  chest.y = position.y + LIGHTING.bodySamples[LIGHTING.bodySamples.length - 1];
+  chest.z = position.z;
+  for (const lamp of lamps) {
+    const [lx, ly, lz] = lamp.position;
+    const distance = Math.hypot(lx - chest.x, ly - chest.y, lz - chest.z);
+    if (distance >= lamp.radius || light >= 1) continue;
+    const ray = aimRay(rapier, chest, (lx - chest.x) / distance, (ly - chest.y) / distance, (lz - chest.z) / distance);
+    if (distance > 0.2 && world.castRay(ray, distance - 0.2, true, flags, undefined, undefined, exclude)) continue;
+    light += lamp.intensity * (1 - distance / lamp.radius) ** 2;
+  }
+  return Math.min(1, light);
+}
@@ -0,0 +1,39 @@
+import { useGameStore } from '../store';
+import { useFixedUpdate } from '../sim/simulationHooks';
+import { TICK_ORDER } from '../sim/fixedStep';
+import { MISSION, ObjectiveState, evaluateObjectives, failedObjective, isMissionComplete } from './mission';
+
+const sameStates = (a: Record<string, ObjectiveState>, b: Record<string, ObjectiveState>) => {
+  const keys = Object.keys(b);
+  return keys.length === Object.keys(a).length && keys.every((key) => a[key] === b[key]);
+};
+
+// 🎯 매 틱 목표 상태를 다시 계산하고 승패를 판정합니다. 붙잡힘은 경비병이 직접 endMission 을 부릅니다.
+export const MissionDirector = () => {
+  useFixedUpdate(({ dt }) => {
+    const { mission, updateMission, endMission, levelData, inventory, playerPosition, alarmRemaining } = useGameStore.getState();
+    if (mission.status !== 'active') return;
+
+    const stats = {
+      ...mission.stats,
+      elapsed: mission.stats.elapsed + dt,
+      alarmTime: mission.stats.alarmTime + (alarmRemaining > 0 ? dt : 0),
+    };
+    const evaluated = evaluateObjectives(levelData.objectives, {
+      inventory,
+      timesSpotted: stats.timesSpotted,
+      playerPosition,
+      extractionZones: levelData.extractionZones,
+    });
+    // HUD 가 매 틱 다시 그리지 않도록 바뀌었을 때만 새 객체로 바꿉니다.
+    const objectives = sameStates(mission.objectives, evaluated) ? mission.objectives : evaluated;
+    updateMission((current) => ({ ...current, stats, objectives }));
+
+    const failed = failedObjective(levelData.objectives, objectives);
+    if (stats.alarmTime >= MISSION.alarmTimeLimit) endMission('lost', 'Reinforcements arrived after the alarm.');
+    else if (failed) endMission('lost', `Failed objective: ${failed.label}`);
+    else if (isMissionComplete(levelData.objectives, objectives)) endMission('won', 'Extracted successfully.');
+  }, TICK_ORDER.world);
+
+  return null;
+};
@@ -0,0 +1,113 @@
+// 🎯 임무 진행 / 승패 판정
+// 레벨의 목표 정의와 현재 진행 상황(인벤토리, 발각 횟수, 플레이어 위치)만으로 목표 상태를 계산하는 순수 로직입니다.
+
+import type { Vec3Like } from '../ai/guardBrain';
+import type { Inventory } from '../items/items';
+import type { ExtractionZone, ObjectiveDefinition } from '../level/levelData';
+
+export const MISSION = {
+  alarmTimeLimit: 45,       // 전역 경보가 울린 시간의 합이 이를 넘으면 증원이 도착해 실패 (초)
+  catchReach: 0.15,         // 추격 중인 경비병 콜라이더에서 이만큼 안쪽이면 붙잡힘
+};
+
+export type MissionStatus = 'active' | 'won' | 'lost';
+export type ObjectiveState = 'active' | 'done' | 'failed';
+
+export interface MissionStats {
+  elapsed: number;          // 초
+  timesSpotted: number;     // 경비병이 완전히 발견한 횟수
+  takedowns: number;
+  alarmTime: number;        // 전역 경보가 울린 시간의 합 (초)
+}
+
+export interface MissionState {
+  status: MissionStatus;
+  reason: string | null;    // 끝난 이유 (결과 화면 표시용)
+  stats: MissionStats;
+  objectives: Record<string, ObjectiveState>;
+}
+
+export const createMissionState = (): MissionState => ({
+  status: 'active',
+  reason: null,
+  stats: { elapsed: 0, timesSpotted: 0, takedowns: 0, alarmTime: 0 },
+  objectives: {},
+});
+
+export interface MissionProgress {
+  inventory: Inventory;
+  timesSpotted: number;
+  playerPosition: Vec3Like;
+  extractionZones: ExtractionZone[];
+}
+
+const isInside = ({ position: [x, y, z], size: [width, height, depth] }: ExtractionZone, point: Vec3Like) =>
+  Math.abs(point.x - x) <= width / 2 && Math.abs(point.z - z) <= depth / 2 && point.y >= y - 0.5 && point.y <= y + height;
+
+// 들키지 않기 목표는 실패하지 않았으면 달성으로 봅니다.
+const isSatisfied = (objective: ObjectiveDefinition, state: ObjectiveState | undefined) =>
+  state === 'done' || (objective.kind === 'undetected' && state === 'active');
+
+/** 목표별 상태. 탈출은 다른 필수 목표를 모두 끝낸 뒤에만 완료됩니다. */
+export function evaluateObjectives(objectives: ObjectiveDefinition[], progress: MissionProgress): Record<string, ObjectiveState> {
+  const states: Record<string, ObjectiveState> = {};
+  for (const objective of objectives) {
+    switch (objective.kind) {
+      case 'collect':
+        states[objective.id] = (progress.inventory[objective.item] ?? 0) >= objective.count ? 'done' : 'active';
+        break;
+      case 'undetected':
+        // 끝날 때까지 들키지 않아야 하므로 진행 중에는 active 로 둡니다.
+        states[objective.id] = progress.timesSpotted > 0 ? 'failed' : 'active';
+        break;
+      case 'extract':
+        states[objective.id] = 'active';
+        break;
+    }
+  }
+
+  const othersDone = objectives.every((o) => o.kind === 'extract' || o.optional || isSatisfied(o, states[o.id]));
+  for (const objective of objectives) {
+    if (objective.kind !== 'extract' || !othersDone) continue;
+    const zone = progress.extractionZones.find((z) => z.id === objective.zone);
+    if (zone && isInside(zone, progress.playerPosition)) states[objective.id] = 'done';
+  }
+  return states;
+}
+
+/** 필수 목표 중 실패한 것이 있으면 그 목표, 없으면 null */
+export function failedObjective(objectives: ObjectiveDefinition[], states: Record<string, ObjectiveState>): ObjectiveDefinition | null {
+  return objectives.find((o) => !o.optional && states[o.id] === 'failed') ?? null;
+}
+
+/** 필수 목표를 모두 끝냈는지 */
+export function isMissionComplete(objectives: ObjectiveDefinition[], states: Record<string, ObjectiveState>): boolean {
+  return objectives.length > 0 && objectives.every((o) => o.optional || isSatisfied(o, states[o.id]));
+}
+
+/** 임무가 끝난 뒤 남은 active 목표를 확정합니다 (성공 시 들키지 않기 달성, 실패 시 미완료는 실패). */
+export function finalizeObjectives(objectives: ObjectiveDefinition[], states: Record<string, ObjectiveState>, status: MissionStatus) {
+  const result = { ...states };
+  for (const objective of objectives) {
+    if (result[objective.id] !== 'active') continue;
+    result[objective.id] = status === 'won' && objective.kind === 'undetected' ? 'done' : 'failed';
+  }
+  return result;
+}
+
+export interface StealthRating {
+  label: string;
+  description: string;
+}
+
+export function stealthRating({ timesSpotted, takedowns, alarmTime }: MissionStats): StealthRating {
+  if (timesSpotted === 0 && takedowns === 0) return { label: 'Ghost', description: 'Never seen, never touched anyone.' };
+  if (timesSpotted === 0) return { label: 'Shadow', description: 'Never seen.' };
+  if (alarmTime === 0) return { label: 'Agent', description: 'Spotted, but no alarm was raised.' };
+  return { label: 'Noisy', description: 'The whole facility knows you were here.' };
+}
+
+export const formatMissionTime = (seconds: number) => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,36 @@
+// 🧭 레벨 GLB 씬 → 내비메시
+// 씬의 메시들을 월드 좌표로 펼쳐 bakeNavMesh 에 넘깁니다.
+// 이름에 InvisibleWall 이 들어간 메시는 바닥으로 쓰지 않고 통행 차단 영역으로 사용합니다.
+
+import { Box3, Mesh, Object3D, Vector3 } from 'three';
+import { NavBlocker, NavMesh, NavSource, bakeNavMesh } from './navMesh';
+
+export function bakeLevelNavMesh(scene: Object3D): NavMesh {
+  scene.updateWorldMatrix(true, true);
+
+  const sources: NavSource[] = [];
+  const blockers: NavBlocker[] = [];
+  const vertex = new Vector3();
+
+  scene.traverse((child) => {
+    if (!(child instanceof Mesh)) return;
+    const geometry = child.geometry;
+    const position = geometry.attributes.position;
+    if (!position) return;
+
+    if (child.name.includes('InvisibleWall')) {
+      const box = new Box3().setFromObject(child);
+      blockers.push({ min: box.min.clone(), max: box.max.clone() });
+      return;
+    }
+
+    const positions = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld);
+      positions.set([vertex.x, vertex.y, vertex.z], i * 3);
+    }
+    sources.push({ positions, indices: geometry.index ? geometry.index.array : null });
+  });
+
+  return bakeNavMesh(sources, blockers);
+}
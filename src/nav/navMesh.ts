@@ -0,0 +1,315 @@
+// 🧭 내비메시 (Navigation Mesh)
+// 레벨 트라이메시에서 걸을 수 있는 삼각형만 추려 인접 그래프를 만들고,
+// A* 로 삼각형 통로(corridor)를 찾은 뒤 퍼널 알고리즘으로 경로를 다듬습니다.
+// three/React 에 의존하지 않는 순수 로직입니다.
+
+import type { Vec3Like } from '../ai/guardBrain';
+
+export interface NavSource {
+  positions: ArrayLike<number>;   // 월드 좌표 xyz 나열
+  indices: ArrayLike<number> | null;
+}
+
+export interface NavBlocker {
+  min: Vec3Like;
+  max: Vec3Like;
+}
+
+interface NavPortal {
+  to: number;   // 이웃 삼각형 인덱스
+  a: number;    // 공유 모서리 정점 인덱스
+  b: number;
+}
+
+export interface NavTriangle {
+  vertices: [number, number, number];
+  centroid: Vec3Like;
+  neighbors: NavPortal[];
+}
+
+export interface NavMesh {
+  vertices: Vec3Like[];
+  triangles: NavTriangle[];
+}
+
+export const NAV_SETTINGS = {
+  maxSlopeDeg: 45,        // 이보다 가파른 면은 벽으로 취급
+  weldPrecision: 100,     // 정점 용접 단위 (1cm)
+  maxStepBelow: 0.6,      // 지점 아래로 이 높이까지의 바닥을 같은 층으로 간주
+};
+
+const sub = (a: Vec3Like, b: Vec3Like) => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+// XZ 평면에서의 부호 있는 면적 ×2
+const triarea2 = (a: Vec3Like, b: Vec3Like, c: Vec3Like) =>
+  (c.x - a.x) * (b.z - a.z) - (b.x - a.x) * (c.z - a.z);
+
+const distSq = (a: Vec3Like, b: Vec3Like) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2;
+
+const insideBlocker = (p: Vec3Like, blockers: NavBlocker[]) =>
+  blockers.some(({ min, max }) =>
+    p.x >= min.x && p.x <= max.x && p.y >= min.y - NAV_SETTINGS.maxStepBelow && p.y <= max.y && p.z >= min.z && p.z <= max.z
+  );
+
+/** 레벨 메시들로부터 내비메시를 굽습니다. blockers 안쪽 바닥은 걸을 수 없는 영역이 됩니다. */
+export function bakeNavMesh(sources: NavSource[], blockers: NavBlocker[] = []): NavMesh {
+  const minNormalY = Math.cos((NAV_SETTINGS.maxSlopeDeg * Math.PI) / 180);
+  const vertices: Vec3Like[] = [];
+  const vertexLookup = new Map<string, number>();
+  const triangles: NavTriangle[] = [];
+
+  const weld = (x: number, y: number, z: number) => {
+    const p = NAV_SETTINGS.weldPrecision;
+    const key = `${Math.round(x * p)}|${Math.round(y * p)}|${Math.round(z * p)}`;
+    let index = vertexLookup.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push({ x, y, z });
+      vertexLookup.set(key, index);
+    }
+    return index;
+  };
+
+  for (const { positions, indices } of sources) {
+    const count = indices ? indices.length : positions.length / 3;
+    for (let i = 0; i + 2 < count; i += 3) {
+      const ids = [0, 1, 2].map((k) => {
+        const v = indices ? indices[i + k] : i + k;
+        return weld(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+      }) as [number, number, number];
+      if (ids[0] === ids[1] || ids[1] === ids[2] || ids[0] === ids[2]) continue;
+
+      const [a, b, c] = ids.map((id) => vertices[id]);
+      const ab = sub(b, a);
+      const ac = sub(c, a);
+      const nx = ab.y * ac.z - ab.z * ac.y;
+      const ny = ab.z * ac.x - ab.x * ac.z;
+      const nz = ab.x * ac.y - ab.y * ac.x;
+      const len = Math.hypot(nx, ny, nz);
+      if (len === 0 || ny / len < minNormalY) continue;
+
+      const centroid = { x: (a.x + b.x + c.x) / 3, y: (a.y + b.y + c.y) / 3, z: (a.z + b.z + c.z) / 3 };
+      if (insideBlocker(centroid, blockers)) continue;
+
+      triangles.push({ vertices: ids, centroid, neighbors: [] });
+    }
+  }
+
+  // 공유 모서리로 인접 관계 연결
+  const edges = new Map<string, number[]>();
+  triangles.forEach((tri, t) => {
+    for (let k = 0; k < 3; k++) {
+      const a = tri.vertices[k];
+      const b = tri.vertices[(k + 1) % 3];
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      const list = edges.get(key);
+      if (list) {
+        for (const other of list) {
+          tri.neighbors.push({ to: other, a, b });
+          triangles[other].neighbors.push({ to: t, a, b });
+        }
+        list.push(t);
+      } else {
+        edges.set(key, [t]);
+      }
+    }
+  });
+
+  return { vertices, triangles };
+}
+
+/** 이웃이 없는 모서리(걸을 수 있는 영역의 테두리). 미니맵 외곽선용입니다. */
+export function navBoundaryEdges(navMesh: NavMesh): [Vec3Like, Vec3Like][] {
+  const edges: [Vec3Like, Vec3Like][] = [];
+  for (const tri of navMesh.triangles) {
+    for (let k = 0; k < 3; k++) {
+      const a = tri.vertices[k];
+      const b = tri.vertices[(k + 1) % 3];
+      const shared = tri.neighbors.some((portal) => (portal.a === a && portal.b === b) || (portal.a === b && portal.b === a));
+      if (!shared) edges.push([navMesh.vertices[a], navMesh.vertices[b]]);
+    }
+  }
+  return edges;
+}
+
+const pointInTriangleXZ = (p: Vec3Like, a: Vec3Like, b: Vec3Like, c: Vec3Like) => {
+  const d1 = triarea2(p, a, b);
+  const d2 = triarea2(p, b, c);
+  const d3 = triarea2(p, c, a);
+  const hasNeg = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPos = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNeg && hasPos);
+};
+
+// 삼각형 평면 위에서 (x, z) 지점의 높이
+const heightOnTriangle = (p: Vec3Like, a: Vec3Like, b: Vec3Like, c: Vec3Like) => {
+  const area = triarea2(a, b, c);
+  if (area === 0) return (a.y + b.y + c.y) / 3;
+  const wa = triarea2(p, b, c) / area;
+  const wb = triarea2(p, c, a) / area;
+  return a.y * wa + b.y * wb + c.y * (1 - wa - wb);
+};
+
+/** 지점이 올라서 있는 삼각형 인덱스. 메시 밖이면 가장 가까운 삼각형을 돌려줍니다. */
+export function findTriangle(navMesh: NavMesh, point: Vec3Like): number {
+  let best = -1;
+  let bestY = -Infinity;
+  navMesh.triangles.forEach((tri, t) => {
+    const [a, b, c] = tri.vertices.map((id) => navMesh.vertices[id]);
+    if (!pointInTriangleXZ(point, a, b, c)) return;
+    const y = heightOnTriangle(point, a, b, c);
+    if (y <= point.y + NAV_SETTINGS.maxStepBelow && y > bestY) {
+      bestY = y;
+      best = t;
+    }
+  });
+  if (best !== -1) return best;
+
+  let bestDist = Infinity;
+  navMesh.triangles.forEach((tri, t) => {
+    const d = distSq(tri.centroid, point);
+    if (d < bestDist) {
+      bestDist = d;
+      best = t;
+    }
+  });
+  return best;
+}
+
+// 최소 힙 기반 A* (삼각형 중심 간 거리)
+function findCorridor(navMesh: NavMesh, startTri: number, endTri: number, goal: Vec3Like): number[] | null {
+  const { triangles } = navMesh;
+  const gScore = new Map<number, number>([[startTri, 0]]);
+  const cameFrom = new Map<number, number>();
+  const closed = new Set<number>();
+  const heap: { t: number; f: number }[] = [{ t: startTri, f: 0 }];
+
+  const push = (node: { t: number; f: number }) => {
+    heap.push(node);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].f <= heap[i].f) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l].f < heap[m].f) m = l;
+        if (r < heap.length && heap[r].f < heap[m].f) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const { t } = pop();
+    if (t === endTri) {
+      const corridor = [t];
+      let current = t;
+      while (cameFrom.has(current)) {
+        current = cameFrom.get(current)!;
+        corridor.unshift(current);
+      }
+      return corridor;
+    }
+    if (closed.has(t)) continue;
+    closed.add(t);
+
+    for (const { to } of triangles[t].neighbors) {
+      if (closed.has(to)) continue;
+      const tentative = gScore.get(t)! + Math.sqrt(distSq(triangles[t].centroid, triangles[to].centroid));
+      if (tentative < (gScore.get(to) ?? Infinity)) {
+        gScore.set(to, tentative);
+        cameFrom.set(to, t);
+        push({ t: to, f: tentative + Math.sqrt(distSq(triangles[to].centroid, goal)) });
+      }
+    }
+  }
+  return null;
+}
+
+// 퍼널(string pulling) 알고리즘으로 통로를 최단 경로로 펴줍니다.
+function stringPull(navMesh: NavMesh, corridor: number[], start: Vec3Like, end: Vec3Like): Vec3Like[] {
+  const portals: { left: Vec3Like; right: Vec3Like }[] = [{ left: start, right: start }];
+  for (let i = 0; i < corridor.length - 1; i++) {
+    const from = navMesh.triangles[corridor[i]];
+    const portal = from.neighbors.find((n) => n.to === corridor[i + 1])!;
+    let left = navMesh.vertices[portal.a];
+    let right = navMesh.vertices[portal.b];
+    if (triarea2(from.centroid, left, right) < 0) [left, right] = [right, left];
+    portals.push({ left, right });
+  }
+  portals.push({ left: end, right: end });
+
+  const path: Vec3Like[] = [start];
+  const same = (a: Vec3Like, b: Vec3Like) => distSq(a, b) < 1e-6;
+  const append = (p: Vec3Like) => {
+    if (!same(path[path.length - 1], p)) path.push(p);
+  };
+  let apex = start;
+  let portalLeft = start;
+  let portalRight = start;
+  let apexIndex = 0;
+  let leftIndex = 0;
+  let rightIndex = 0;
+
+  for (let i = 1; i < portals.length; i++) {
+    const { left, right } = portals[i];
+
+    if (triarea2(apex, portalRight, right) <= 0) {
+      if (same(apex, portalRight) || triarea2(apex, portalLeft, right) > 0) {
+        portalRight = right;
+        rightIndex = i;
+      } else {
+        append(portalLeft);
+        apex = portalLeft;
+        apexIndex = leftIndex;
+        portalLeft = portalRight = apex;
+        leftIndex = rightIndex = apexIndex;
+        i = apexIndex;
+        continue;
+      }
+    }
+
+    if (triarea2(apex, portalLeft, left) >= 0) {
+      if (same(apex, portalLeft) || triarea2(apex, portalRight, left) < 0) {
+        portalLeft = left;
+        leftIndex = i;
+      } else {
+        append(portalRight);
+        apex = portalRight;
+        apexIndex = rightIndex;
+        portalLeft = portalRight = apex;
+        leftIndex = rightIndex = apexIndex;
+        i = apexIndex;
+        continue;
+      }
+    }
+  }
+
+  append(end);
+  return path;
+}
+
+/** start → end 경로의 웨이포인트 목록. 이어지지 않는 구역이면 null 을 돌려줍니다. */
+export function findPath(navMesh: NavMesh, start: Vec3Like, end: Vec3Like): Vec3Like[] | null {
+  if (navMesh.triangles.length === 0) return null;
+  const startTri = findTriangle(navMesh, start);
+  const endTri = findTriangle(navMesh, end);
+  const corridor = findCorridor(navMesh, startTri, endTri, end);
+  if (!corridor) return null;
+  return stringPull(navMesh, corridor, start, end);
+}
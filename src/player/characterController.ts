@@ -0,0 +1,78 @@
+// 🦶 캐릭터 컨트롤러
+// 플레이어 캐릭터는 키네마틱 강체라 물리 엔진이 밀어주지 않습니다. Rapier 의 KinematicCharacterController 로
+// 원하는 이동량을 경사/계단/벽에 맞춰 깎고, 결과 이동량과 접지/천장 충돌을 돌려줍니다.
+
+import type { RapierCollider, RapierRigidBody } from '@react-three/rapier';
+import type { Vec3Like } from '../ai/guardBrain';
+import type { PhysicsQuery } from '../ai/perception';
+import type { CapsuleShape } from '../characters/roster';
+import type { MotorContact } from './playerMotor';
+
+export const CHARACTER_CONTROLLER = {
+  offset: 0.02,                        // 콜라이더와 벽 사이에 남기는 틈
+  maxSlopeClimbAngle: (45 * Math.PI) / 180,
+  minSlopeSlideAngle: (50 * Math.PI) / 180,
+  stepHeight: 0.35,                    // 이 높이까지의 턱은 그냥 올라갑니다
+  stepMinWidth: 0.2,                   // 올라선 턱 위에 이만큼 디딜 자리가 있어야 합니다
+  snapDistance: 0.3,                   // 내리막/계단을 내려갈 때 바닥에 붙이는 거리
+  headroomMargin: 0.05,                // 일어설 공간 확인 시 바닥/벽에 스치는 건 무시
+};
+
+export type CharacterController = InstanceType<PhysicsQuery['rapier']['KinematicCharacterController']>;
+
+export interface ControllerMove extends MotorContact {
+  movement: Vec3Like;
+}
+
+export function createCharacterController({ world }: PhysicsQuery): CharacterController {
+  const controller = world.createCharacterController(CHARACTER_CONTROLLER.offset);
+  controller.setUp({ x: 0, y: 1, z: 0 });
+  controller.setMaxSlopeClimbAngle(CHARACTER_CONTROLLER.maxSlopeClimbAngle);
+  controller.setMinSlopeSlideAngle(CHARACTER_CONTROLLER.minSlopeSlideAngle);
+  controller.enableAutostep(CHARACTER_CONTROLLER.stepHeight, CHARACTER_CONTROLLER.stepMinWidth, false);
+  controller.setApplyImpulsesToDynamicBodies(false);
+  return controller;
+}
+
+/**
+ * desired 만큼 움직여 보고 실제로 갈 수 있는 이동량을 돌려줍니다. 센서(체크포인트/엄폐 볼륨 등)는 통과합니다.
+ * 올라가는 중(snapToGround = false)에는 바닥에 붙이지 않고, 위로 가려던 만큼 못 갔으면 천장에 부딪힌 것으로 봅니다.
+ */
+export function moveCharacter(
+  { rapier }: PhysicsQuery,
+  controller: CharacterController,
+  collider: RapierCollider,
+  desired: Vec3Like,
+  snapToGround: boolean
+): ControllerMove {
+  if (snapToGround) controller.enableSnapToGround(CHARACTER_CONTROLLER.snapDistance);
+  else controller.disableSnapToGround();
+  controller.computeColliderMovement(collider, desired, rapier.QueryFilterFlags.EXCLUDE_SENSORS);
+  const movement = controller.computedMovement();
+  return {
+    movement,
+    grounded: controller.computedGrounded(),
+    hitCeiling: desired.y > 0 && movement.y < desired.y * 0.5,
+  };
+}
+
+/** 웅크린 캐릭터가 position(발 위치)에서 일어설 공간이 있는지 서기 캡슐로 확인합니다. */
+export function canStandUp({ world, rapier }: PhysicsQuery, position: Vec3Like, stand: CapsuleShape, body: RapierRigidBody): boolean {
+  const [halfHeight, radius] = stand.args;
+  const margin = CHARACTER_CONTROLLER.headroomMargin;
+  const center = {
+    x: position.x + stand.position[0],
+    y: position.y + stand.position[1] + margin,
+    z: position.z + stand.position[2],
+  };
+  const hit = world.intersectionWithShape(
+    center,
+    { x: 0, y: 0, z: 0, w: 1 },
+    new rapier.Capsule(halfHeight, radius - margin),
+    rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    body
+  );
+  return hit === null;
+}
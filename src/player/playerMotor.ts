@@ -0,0 +1,196 @@
+// 🏃 플레이어 이동 규칙
+// 틱 입력 → 목표 속도 / 바라볼 방향 / 애니메이션 / 소음을 계산합니다. 수직 속도(중력/점프)도 여기서 적분하고,
+// 실제 이동과 지면/천장 판정은 캐릭터 컨트롤러(characterController) 몫이라 결과를 settlePlayerMotor 로 돌려받습니다.
+// React 없이 Rapier 월드만으로도 같은 규칙을 돌릴 수 있습니다.
+
+import type { Vec3Like } from '../ai/guardBrain';
+import { NOISE_PROFILES, NoiseKind, NoiseProfile, landingNoise } from '../ai/hearing';
+
+export const PLAYER_MOTOR = {
+  runSpeed: 4.6,
+  walkSpeed: 2,
+  jumpForce: 7.2,
+  dashJumpForce: 4.8,       // 달리면서 점프하면 낮고 빠르게
+  dashSpeed: 6.2,
+  airSpeed: 2,
+  gravity: 25.5,            // m/s² (기존 중력 배수 2.6 과 같은 느낌)
+  maxFallSpeed: 30,
+  jumpLockout: 0.1,         // 점프 직후 지면 판정을 쉬는 시간 (초). 떠오르기 전 같은 틱에 다시 착지로 보지 않도록
+  coyoteTime: 0.12,         // 발판에서 떨어진 뒤에도 점프를 받아주는 시간
+  jumpBufferTime: 0.15,     // 착지 직전에 누른 점프를 기억하는 시간
+  runStepInterval: 0.32,
+  walkStepInterval: 0.45,
+  crouchStepInterval: 0.55,
+  analogRunThreshold: 0.7,  // 스틱 기울기가 이보다 작으면 걷기
+};
+
+export type PlayerAnimation = 'Idle' | 'Run' | 'Walk' | 'Crouch' | 'Jump' | 'Dash';
+
+export interface MotorInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  moveX: number;            // 아날로그 이동 (방향 키가 눌려 있으면 무시)
+  moveY: number;
+  viewYaw: number;          // 카메라 쪽 수평 각도 (cameraViewYaw). 화면 위쪽이 "앞"이 되도록 입력을 돌립니다.
+  jump: boolean;            // 이번 틱에 새로 눌렸는지
+  toggleCrouch: boolean;    // 이번 틱에 새로 눌렸는지
+}
+
+export interface MotorState {
+  crouched: boolean;
+  inAir: boolean;           // 점프해서 다시 착지할 때까지
+  jumpLockout: number;
+  grounded: boolean;        // 지난 틱 컨트롤러 이동 결과의 접지 여부
+  verticalSpeed: number;
+  coyoteTimer: number;      // 남은 코요테 시간
+  jumpBuffer: number;       // 남은 점프 입력 기억 시간
+  airborne: boolean;        // 실제로 땅에서 떨어져 있는지 (착지 소음용)
+  fallSpeed: number;
+  stepTimer: number;
+  animation: PlayerAnimation;
+}
+
+export interface MotorNoise {
+  kind: NoiseKind;
+  profile: NoiseProfile;
+}
+
+export interface MotorOutput {
+  velocity: Vec3Like;       // 이번 틱에 원하는 속도 (컨트롤러가 경사/계단/벽에 맞춰 깎습니다)
+  facing: number | null;    // 이동 방향 y 회전, 멈춰 있으면 null
+  snapToGround: boolean;    // 올라가는 중에는 바닥에 붙이지 않습니다
+  noises: MotorNoise[];
+}
+
+/** 컨트롤러가 실제로 움직인 결과 */
+export interface MotorContact {
+  grounded: boolean;
+  hitCeiling: boolean;
+}
+
+export function createMotorState(crouched = false): MotorState {
+  return {
+    crouched, inAir: false, jumpLockout: 0, grounded: true, verticalSpeed: 0, coyoteTimer: 0, jumpBuffer: 0,
+    airborne: false, fallSpeed: 0, stepTimer: 0, animation: 'Idle',
+  };
+}
+
+/**
+ * 한 틱 진행합니다. state 는 그대로 갱신되고, 원하는 속도와 발생한 소음을 돌려줍니다.
+ * 웅크림을 풀 때는 canStand 로 머리 위 공간을 확인합니다 (낮은 천장 아래에서는 계속 웅크림).
+ * 카메라 기준 이동이라 forward 는 화면 위쪽(카메라 반대 방향), right 는 화면 오른쪽입니다.
+ * 기본 시점(viewYaw = 45도)에서는 forward 가 (-1, -1), right 가 (1, -1) 방향입니다.
+ * 방향 키는 항상 최대 입력이고, 아날로그 스틱은 기울기로 걷기/달리기를 고릅니다.
+ */
+export function stepPlayerMotor(
+  state: MotorState,
+  input: MotorInput,
+  canStand: () => boolean,
+  dt: number,
+  motor = PLAYER_MOTOR
+): MotorOutput {
+  const noises: MotorNoise[] = [];
+  if (input.toggleCrouch && (!state.crouched || canStand())) state.crouched = !state.crouched;
+
+  // 화면 기준 입력 (오른쪽 +x, 위쪽 +y)
+  let screenX = 0;
+  let screenY = 0;
+  if (input.forward) screenY += 1;
+  if (input.backward) screenY -= 1;
+  if (input.left) screenX -= 1;
+  if (input.right) screenX += 1;
+  let magnitude = screenX !== 0 || screenY !== 0 ? 1 : 0;
+  if (magnitude === 0) {
+    screenX = input.moveX;
+    screenY = input.moveY;
+    magnitude = Math.min(1, Math.hypot(input.moveX, input.moveY));
+  }
+  // 화면 위쪽 = -(sin, cos), 화면 오른쪽 = (cos, -sin)
+  const sin = Math.sin(input.viewYaw);
+  const cos = Math.cos(input.viewYaw);
+  let dirX = screenX * cos - screenY * sin;
+  let dirZ = -screenX * sin - screenY * cos;
+  const length = Math.hypot(dirX, dirZ);
+  const isMoving = length > 0;
+  if (isMoving) { dirX /= length; dirZ /= length; }
+  const isWalking = state.crouched || magnitude < motor.analogRunThreshold;
+
+  state.jumpLockout = Math.max(0, state.jumpLockout - dt);
+  // 발판에서 막 떨어졌거나 착지 직전에 누른 점프도 받아줍니다.
+  state.coyoteTimer = state.grounded && !state.inAir ? motor.coyoteTime : Math.max(0, state.coyoteTimer - dt);
+  state.jumpBuffer = input.jump ? motor.jumpBufferTime : Math.max(0, state.jumpBuffer - dt);
+
+  if (state.jumpBuffer > 0 && state.coyoteTimer > 0 && !state.inAir) {
+    const isRunning = isMoving && !isWalking;
+    state.verticalSpeed = isRunning ? motor.dashJumpForce : motor.jumpForce;
+    noises.push({ kind: 'jump', profile: isRunning ? NOISE_PROFILES.dashJump : NOISE_PROFILES.jump });
+    state.inAir = true;
+    state.jumpLockout = motor.jumpLockout;
+    state.jumpBuffer = 0;
+    state.coyoteTimer = 0;
+  }
+
+  const grounded = state.grounded && !state.inAir;
+  if (grounded) {
+    state.verticalSpeed = 0;
+  } else {
+    state.verticalSpeed = Math.max(-motor.maxFallSpeed, state.verticalSpeed - motor.gravity * dt);
+  }
+  // 서 있을 때도 살짝 눌러 줘야 컨트롤러가 접지를 계속 알려 줍니다.
+  const velocityY = grounded ? -motor.gravity * dt : state.verticalSpeed;
+
+  // --- 👂 발소리 / 착지 소음 ---
+  if (!grounded) {
+    state.airborne = true;
+    state.fallSpeed = Math.max(state.fallSpeed, -velocityY);
+    state.stepTimer = 0;
+  } else {
+    if (state.airborne) {
+      const noise = landingNoise(state.fallSpeed);
+      if (noise) noises.push({ kind: 'land', profile: noise });
+      state.airborne = false;
+      state.fallSpeed = 0;
+    }
+    if (isMoving) {
+      state.stepTimer -= dt;
+      if (state.stepTimer <= 0) {
+        const [profile, interval] = state.crouched
+          ? [NOISE_PROFILES.crouchStep, motor.crouchStepInterval]
+          : isWalking
+            ? [NOISE_PROFILES.walkStep, motor.walkStepInterval]
+            : [NOISE_PROFILES.runStep, motor.runStepInterval];
+        noises.push({ kind: 'footstep', profile });
+        state.stepTimer = interval;
+      }
+    } else {
+      state.stepTimer = 0;
+    }
+  }
+
+  let speed = 0;
+  if (!grounded) {
+    state.animation = (state.animation === 'Dash' || (state.inAir && isMoving && !isWalking)) ? 'Dash' : 'Jump';
+    speed = isMoving ? (state.animation === 'Dash' ? motor.dashSpeed : motor.airSpeed) : 0;
+  } else if (isMoving) {
+    state.animation = isWalking ? 'Walk' : 'Run';
+    speed = isWalking ? motor.walkSpeed : motor.runSpeed;
+  } else {
+    state.animation = state.crouched ? 'Crouch' : 'Idle';
+  }
+
+  return {
+    velocity: { x: dirX * speed, y: velocityY, z: dirZ * speed },
+    facing: isMoving ? Math.atan2(dirX, dirZ) : null,
+    snapToGround: velocityY <= 0,
+    noises,
+  };
+}
+
+/** 컨트롤러 이동 결과를 반영합니다. 점프 직후 잠금 구간이 지나 접지하면 착지, 천장에 부딪히면 상승을 멈춥니다. */
+export function settlePlayerMotor(state: MotorState, contact: MotorContact) {
+  state.grounded = contact.grounded && state.jumpLockout <= 0;
+  if (state.grounded) state.inAir = false;
+  if (contact.hitCeiling && state.verticalSpeed > 0) state.verticalSpeed = 0;
+}
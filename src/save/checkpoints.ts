@@ -0,0 +1,71 @@
+// 💾 체크포인트 저장 / 복원
+// 플레이어 캐릭터와 경비병이 각자 capture/restore 를 등록해 두면, 체크포인트 진입 시 한 번에 스냅샷을 만들고
+// 낙사나 실패 시 마지막 스냅샷으로 되돌립니다.
+
+import { useGameStore } from '../store';
+import { CharacterSnapshot, GuardSnapshot, PlayerSnapshot, SAVE_VERSION, SaveSnapshot, readSnapshot, writeSnapshot } from './saveGame';
+
+export interface Persistable<T> {
+  capture: () => T;
+  restore: (snapshot: T) => void;
+}
+
+const guards = new Map<string, Persistable<GuardSnapshot>>();
+const characters = new Map<string, Persistable<PlayerSnapshot>>();
+
+/** 등록 해제 함수를 돌려주므로 useEffect 의 cleanup 으로 그대로 쓸 수 있습니다. */
+export function registerGuard(id: string, persistable: Persistable<GuardSnapshot>) {
+  guards.set(id, persistable);
+  return () => {
+    if (guards.get(id) === persistable) guards.delete(id);
+  };
+}
+
+export function registerCharacter(id: string, persistable: Persistable<PlayerSnapshot>) {
+  characters.set(id, persistable);
+  return () => {
+    if (characters.get(id) === persistable) characters.delete(id);
+  };
+}
+
+/** 현재 상태를 저장하지 않고 스냅샷으로만 만듭니다 (입력 녹화의 시작 상태 등). */
+export function captureSnapshot(checkpointId: string | null): SaveSnapshot | null {
+  if (characters.size === 0) return null;
+  const {
+    inventory, equippedGadget, openDoors, activeSwitches, disabledCameras, collectedPickups, alarmRemaining, activeCharacter, cameraHeading,
+  } = useGameStore.getState();
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    checkpointId,
+    isAlerted: useGameStore.getState().isAlerted,
+    characters: [...characters.entries()].map(([id, character]): CharacterSnapshot => ({ id, ...character.capture() })),
+    activeCharacter,
+    cameraHeading,
+    guards: [...guards.values()].map((guard) => guard.capture()),
+    world: { inventory, equippedGadget, openDoors, activeSwitches, disabledCameras, collectedPickups, alarmRemaining },
+  };
+}
+
+export function saveCheckpoint(checkpointId: string): SaveSnapshot | null {
+  const snapshot = captureSnapshot(checkpointId);
+  if (!snapshot) return null;
+  writeSnapshot(snapshot);
+  useGameStore.getState().setLastCheckpointId(checkpointId);
+  console.log(`💾 Checkpoint saved: ${checkpointId}`);
+  return snapshot;
+}
+
+/** 저장된 스냅샷으로 되돌립니다. 스냅샷이 없으면 false. */
+export function restoreCheckpoint(snapshot: SaveSnapshot | null = readSnapshot()): boolean {
+  if (!snapshot || characters.size === 0) return false;
+  // 스냅샷 이후 레벨에서 사라진 캐릭터/경비병은 건너뛰고, 새로 생긴 쪽은 현재 상태를 유지합니다.
+  for (const { id, ...character } of snapshot.characters) characters.get(id)?.restore(character);
+  for (const guard of snapshot.guards) guards.get(guard.id)?.restore(guard);
+  const activeCharacter = characters.has(snapshot.activeCharacter.id) ? snapshot.activeCharacter : useGameStore.getState().activeCharacter;
+  // 날아가던 투척물은 스냅샷에 없으므로 치웁니다.
+  useGameStore.setState({ ...snapshot.world, activeCharacter, cameraHeading: snapshot.cameraHeading, projectiles: [] });
+  useGameStore.getState().setLastCheckpointId(snapshot.checkpointId);
+  console.log(`💾 Checkpoint restored: ${snapshot.checkpointId}`);
+  return true;
+}
@@ -0,0 +1,129 @@
+// 💾 체크포인트 스냅샷 저장 형식
+// localStorage 에 버전이 붙은 JSON 으로 저장하고, 읽을 때 이전 버전은 마이그레이션합니다.
+
+import type { GuardMode } from '../ai/guardBrain';
+import type { Vec3Tuple } from '../level/levelData';
+import type { Inventory, ItemId } from '../items/items';
+import type { ActiveCharacter } from '../characters/roster';
+
+export const SAVE_VERSION = 7;
+export const SAVE_STORAGE_KEY = 'r3f-shadow:save';
+
+export interface PlayerSnapshot {
+  position: Vec3Tuple;
+  rotationY: number;
+  isCrouching: boolean;
+}
+
+export interface CharacterSnapshot extends PlayerSnapshot {
+  id: string;               // 레벨 배치 id (주인공은 'player')
+}
+
+export interface GuardSnapshot {
+  id: string;
+  position: Vec3Tuple;
+  rotationY: number;
+  patrolIndex: number;
+  isWaiting: boolean;       // 웨이포인트에서 대기 중이었는지
+  mode: GuardMode;
+  suspicion: number;
+  lastKnownPosition: Vec3Tuple | null;
+  bodyDiscovered: boolean;  // 기절한 경우 다른 경비병에게 발견되었는지
+}
+
+// 문/스위치/아이템처럼 레벨에 남는 진행 상태
+export interface WorldSnapshot {
+  inventory: Inventory;
+  equippedGadget: ItemId | null;
+  openDoors: Record<string, boolean>;
+  activeSwitches: Record<string, boolean>;
+  disabledCameras: Record<string, boolean>;
+  collectedPickups: Record<string, boolean>;
+  alarmRemaining: number;   // 남은 전역 경보 시간 (초)
+}
+
+export interface SaveSnapshot {
+  version: typeof SAVE_VERSION;
+  savedAt: number;
+  checkpointId: string | null;
+  isAlerted: boolean;
+  characters: CharacterSnapshot[];
+  activeCharacter: ActiveCharacter;
+  cameraHeading: number;    // 이동 입력이 시점 기준이라 녹화 재생에도 필요합니다.
+  guards: GuardSnapshot[];
+  world: WorldSnapshot;
+}
+
+export const EMPTY_WORLD_SNAPSHOT: WorldSnapshot = {
+  inventory: {},
+  equippedGadget: null,
+  openDoors: {},
+  activeSwitches: {},
+  disabledCameras: {},
+  collectedPickups: {},
+  alarmRemaining: 0,
+};
+
+// 버전 n 데이터를 n + 1 로 올리는 함수들. 형식을 바꿀 때 SAVE_VERSION 을 올리고 여기에 추가합니다.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v2: 인벤토리와 문/스위치/픽업 상태 추가
+  1: (data) => ({ ...data, version: 2, world: EMPTY_WORLD_SNAPSHOT }),
+  // v3: 플레이어 한 명 → 캐릭터 목록과 조작 중인 캐릭터
+  2: ({ player, ...data }) => ({
+    ...data,
+    version: 3,
+    characters: [{ id: 'player', ...player }],
+    activeCharacter: { id: 'player', character: 'hero' },
+  }),
+  // v4: 기절한 경비병의 발견 여부
+  3: (data) => ({
+    ...data,
+    version: 4,
+    guards: data.guards.map((guard: any) => ({ ...guard, bodyDiscovered: false })),
+  }),
+  // v5: 전역 경보 타이머
+  4: (data) => ({ ...data, version: 5, world: { ...data.world, alarmRemaining: 0 } }),
+  // v6: 스위치로 끈 보안 카메라
+  5: (data) => ({ ...data, version: 6, world: { ...data.world, disabledCameras: {} } }),
+  // v7: 카메라 시점
+  6: (data) => ({ ...data, version: 7, cameraHeading: 0 }),
+};
+
+/** 저장된 원본 데이터를 현재 버전으로 올립니다. 올릴 수 없으면 null. */
+export function migrateSnapshot(data: any): SaveSnapshot | null {
+  if (typeof data !== 'object' || data === null || typeof data.version !== 'number') return null;
+  let current = data;
+  while (current.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) return null;
+    current = migrate(current);
+  }
+  if (current.version !== SAVE_VERSION || !Array.isArray(current.characters) || !Array.isArray(current.guards)) return null;
+  return current as SaveSnapshot;
+}
+
+export function readSnapshot(storage: Storage = localStorage): SaveSnapshot | null {
+  try {
+    const raw = storage.getItem(SAVE_STORAGE_KEY);
+    if (!raw) return null;
+    const snapshot = migrateSnapshot(JSON.parse(raw));
+    if (!snapshot) console.warn('💾 Discarding incompatible save data');
+    return snapshot;
+  } catch (e) {
+    console.warn('💾 Failed to read save data:', (e as Error).message);
+    return null;
+  }
+}
+
+export function writeSnapshot(snapshot: SaveSnapshot, storage: Storage = localStorage) {
+  try {
+    storage.setItem(SAVE_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (e) {
+    // 용량 초과/사생활 보호 모드 등에서는 저장만 건너뜁니다.
+    console.warn('💾 Failed to write save data:', (e as Error).message);
+  }
+}
+
+export function clearSnapshot(storage: Storage = localStorage) {
+  storage.removeItem(SAVE_STORAGE_KEY);
+}
@@ -0,0 +1,62 @@
+// ⏱️ 고정 틱 시뮬레이션
+// 물리 스텝 하나 = 게임 틱 하나. 플레이어 이동, 경비병 AI, 타이머가 모두 같은 시계(FIXED_DT)로 진행되므로
+// 같은 시작 상태와 같은 틱별 입력이면 같은 결과가 나옵니다.
+
+export const TICK_RATE = 60;
+export const FIXED_DT = 1 / TICK_RATE;
+
+// 같은 틱 안에서의 실행 순서. 캐릭터 교체가 먼저 반영되고, 경비병은 이번 틱에 갱신된 플레이어 위치를 봅니다.
+// 경보 타이머 같은 월드 상태는 마지막에 진행합니다.
+export const TICK_ORDER = {
+  party: -5,
+  player: 0,
+  guards: 10,
+  world: 20,
+} as const;
+
+export interface TickInput {
+  held: Record<string, boolean>;      // 이번 틱에 눌려 있는 입력
+  pressed: Record<string, boolean>;   // 이번 틱에 새로 눌린 입력 (상승 에지)
+  moveX: number;                      // 아날로그 이동 -1 ~ 1 (오른쪽 +)
+  moveY: number;                      // 아날로그 이동 -1 ~ 1 (앞 +)
+}
+
+// 키보드/게임패드에서 읽은 그대로의 입력 (pressed 는 틱 단위로 계산)
+export type LiveInput = Omit<TickInput, 'pressed'>;
+
+export interface TickContext {
+  tick: number;
+  dt: number;
+  input: TickInput;
+}
+
+export type TickHandler = (ctx: TickContext) => void;
+
+interface Registration {
+  order: number;
+  handler: TickHandler;
+}
+
+let registrations: Registration[] = [];
+let tick = 0;
+
+/** 등록 해제 함수를 돌려주므로 useEffect 의 cleanup 으로 그대로 쓸 수 있습니다. */
+export function addTickHandler(order: number, handler: TickHandler) {
+  const registration = { order, handler };
+  // 같은 order 끼리는 등록 순서를 유지합니다 (stable sort).
+  registrations = [...registrations, registration].sort((a, b) => a.order - b.order);
+  return () => {
+    registrations = registrations.filter((r) => r !== registration);
+  };
+}
+
+export function currentTick() {
+  return tick;
+}
+
+/** 틱 하나를 진행합니다. 물리 스텝 직전에 SimulationDriver 가 호출합니다. */
+export function runTick(input: TickInput) {
+  tick++;
+  const ctx: TickContext = { tick, dt: FIXED_DT, input };
+  for (const { handler } of registrations) handler(ctx);
+}
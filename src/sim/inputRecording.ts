@@ -0,0 +1,136 @@
+// 🎬 입력 녹화 / 재생
+// 틱마다 키보드 상태를 비트마스크로 남기고, 재생할 때는 시작 스냅샷을 복원한 뒤 같은 입력을 같은 틱에 다시 넣습니다.
+// 같은 입력이 이어지는 구간은 [마스크, 틱 수, 아날로그 X, 아날로그 Y] 로 묶어 저장합니다.
+// 아날로그 값은 -127 ~ 127 로 양자화하며, 실시간 플레이도 같은 양자화 값을 써야 재생 결과가 일치합니다.
+
+import { SaveSnapshot, migrateSnapshot } from '../save/saveGame';
+import { LiveInput, TICK_RATE, TickInput } from './fixedStep';
+
+export const RECORDING_VERSION = 2;
+const AXIS_STEPS = 127;
+
+export interface InputRecording {
+  version: typeof RECORDING_VERSION;
+  tickRate: number;
+  controls: string[];               // 비트 순서
+  startSnapshot: SaveSnapshot;
+  runs: [mask: number, ticks: number, moveX: number, moveY: number][];
+}
+
+export type SimulationMode = 'live' | 'recording' | 'replaying';
+
+export function encodeInput(held: Record<string, boolean>, controls: string[]): number {
+  return controls.reduce((mask, name, bit) => (held[name] ? mask | (1 << bit) : mask), 0);
+}
+
+export function decodeInput(mask: number, controls: string[]): Record<string, boolean> {
+  return Object.fromEntries(controls.map((name, bit) => [name, (mask & (1 << bit)) !== 0]));
+}
+
+/** 녹화 당시 비트 순서(from)의 마스크를 현재 순서(to)로 옮깁니다. to 에 없는 동작은 버립니다. */
+function remapMask(mask: number, from: string[], to: string[]): number {
+  return encodeInput(decodeInput(mask, from), to);
+}
+
+/**
+ * 파일에서 읽은 녹화를 검증합니다. 입력 동작은 이름으로 맞춰 현재 비트 순서로 옮기며,
+ * 녹화에 있는 동작이 현재 구성에 없거나 형식이 틀리면 null.
+ */
+export function parseRecording(json: unknown, controls: string[]): InputRecording | null {
+  const data = json as Partial<InputRecording> | null;
+  if (!data || data.version !== RECORDING_VERSION || data.tickRate !== TICK_RATE) return null;
+  const recorded = data.controls;
+  if (!Array.isArray(recorded) || recorded.length > 31 || new Set(recorded).size !== recorded.length) return null;
+  if (!recorded.every((name) => typeof name === 'string' && controls.includes(name))) return null;
+  const startSnapshot = migrateSnapshot(data.startSnapshot);
+  if (!startSnapshot || !Array.isArray(data.runs)) return null;
+  const validRun = (run: unknown): run is InputRecording['runs'][number] =>
+    Array.isArray(run) && run.length === 4 && run.every(Number.isInteger) && run[0] >= 0 && run[0] < 2 ** recorded.length &&
+    run[1] > 0 && Math.abs(run[2]) <= AXIS_STEPS && Math.abs(run[3]) <= AXIS_STEPS;
+  if (!data.runs.every(validRun)) return null;
+  const runs = data.runs.map(([mask, ticks, moveX, moveY]): InputRecording['runs'][number] =>
+    [remapMask(mask, recorded, controls), ticks, moveX, moveY]);
+  return { ...(data as InputRecording), controls, startSnapshot, runs };
+}
+
+let mode: SimulationMode = 'live';
+let recording: InputRecording | null = null;
+let replay: { recording: InputRecording; run: number; tick: number; onFinish?: () => void } | null = null;
+let previousMask = 0;
+
+export function simulationMode(): SimulationMode {
+  return mode;
+}
+
+export function startRecording(controls: string[], startSnapshot: SaveSnapshot) {
+  replay = null;
+  recording = { version: RECORDING_VERSION, tickRate: TICK_RATE, controls, startSnapshot, runs: [] };
+  // 재생과 같은 조건에서 시작하도록 눌림 판정 기준을 비웁니다.
+  previousMask = 0;
+  mode = 'recording';
+}
+
+/** 녹화를 끝내고 결과를 돌려줍니다. 녹화 중이 아니었으면 null. */
+export function stopRecording(): InputRecording | null {
+  const result = recording;
+  recording = null;
+  if (mode === 'recording') mode = 'live';
+  return result;
+}
+
+/** 시작 스냅샷 복원은 호출하는 쪽 책임입니다. 녹화가 끝나면 onFinish 후 실시간 입력으로 돌아갑니다. */
+export function startReplay(source: InputRecording, onFinish?: () => void) {
+  recording = null;
+  replay = { recording: source, run: 0, tick: 0, onFinish };
+  previousMask = 0;
+  mode = 'replaying';
+}
+
+export function stopReplay() {
+  replay = null;
+  if (mode === 'replaying') mode = 'live';
+}
+
+const quantizeAxis = (value: number) => Math.round(Math.max(-1, Math.min(1, value)) * AXIS_STEPS);
+
+function nextReplayRun(): InputRecording['runs'][number] | null {
+  if (!replay) return null;
+  const run = replay.recording.runs[replay.run];
+  if (!run) {
+    const { onFinish } = replay;
+    stopReplay();
+    onFinish?.();
+    return null;
+  }
+  if (++replay.tick >= run[1]) {
+    replay.run++;
+    replay.tick = 0;
+  }
+  return run;
+}
+
+/**
+ * 이번 틱에 쓸 입력을 정합니다. 재생 중이면 녹화된 입력, 아니면 실시간 입력(녹화 중이면 기록).
+ * 매 틱 정확히 한 번 호출해야 합니다.
+ */
+export function sampleTickInput(live: LiveInput, controls: string[]): TickInput {
+  let run = nextReplayRun();
+  if (!run) {
+    const [mask, moveX, moveY] = [encodeInput(live.held, controls), quantizeAxis(live.moveX), quantizeAxis(live.moveY)];
+    run = [mask, 1, moveX, moveY];
+    if (recording) {
+      const last = recording.runs[recording.runs.length - 1];
+      if (last && last[0] === mask && last[2] === moveX && last[3] === moveY) last[1]++;
+      else recording.runs.push(run);
+    }
+  }
+  const [mask, , moveX, moveY] = run;
+  const pressedMask = mask & ~previousMask;
+  previousMask = mask;
+  return {
+    held: decodeInput(mask, controls),
+    pressed: decodeInput(pressedMask, controls),
+    moveX: moveX / AXIS_STEPS,
+    moveY: moveY / AXIS_STEPS,
+  };
+}
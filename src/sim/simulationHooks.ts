@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import { useBeforePhysicsStep } from '@react-three/rapier';
+import { LiveInput, TickHandler, addTickHandler, runTick } from './fixedStep';
+import { sampleTickInput } from './inputRecording';
+
+// ⏱️ 고정 틱 훅
+// <Physics timeStep={FIXED_DT}> 안에 SimulationDriver 를 하나 두면, 물리 스텝마다 입력을 한 번 샘플링하고
+// useFixedUpdate 로 등록된 로직을 order 순서대로 실행합니다.
+
+/** 틱마다 실행할 로직을 등록합니다. 핸들러는 매 렌더의 최신 클로저를 사용합니다. */
+export function useFixedUpdate(handler: TickHandler, order: number) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(() => addTickHandler(order, (ctx) => handlerRef.current(ctx)), [order]);
+}
+
+export const SimulationDriver = ({ readInput, controls }: { readInput: () => LiveInput, controls: string[] }) => {
+  useBeforePhysicsStep(() => {
+    runTick(sampleTickInput(readInput(), controls));
+  });
+  return null;
+};
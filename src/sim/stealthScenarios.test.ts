@@ -0,0 +1,259 @@
+// 🧪 잠입 규칙 시나리오: 렌더링 없이 Node 에서 Rapier 월드를 직접 만들어 감지 / 엄폐 / 벽 차폐 / 순찰을 돌려봅니다.
+
+import RAPIER, { Collider, EventQueue, World } from '@dimforge/rapier3d-compat';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { CROUCH_BODY_SAMPLES, PhysicsQuery, STAND_BODY_SAMPLES, countWallsBetween, sampleVisibility } from '../ai/perception';
+import { DETECTION_RATES, DetectionInput, detectionFillRate } from '../ai/detection';
+import { PERCEPTION_PROFILES, outerVisionCone } from '../ai/perceptionProfiles';
+import { clampPatrol, createPatrolState, stepPatrolWait } from '../ai/patrol';
+import { CoverKind, coverKindsOf, enterCover, exitCover, registerCoverVolume, releaseCoverCollider } from '../cover/cover';
+import type { Vec3Like } from '../ai/guardBrain';
+import type { PatrolWaypoint } from '../level/levelData';
+
+const VETERAN = PERCEPTION_PROFILES.veteran;
+const GUARD: Vec3Like = { x: 0, y: 0, z: 0 };
+const FORWARD = { x: 0, z: 1 };         // 경비병은 +z 를 봅니다
+
+let world: World;
+let physics: PhysicsQuery;
+
+beforeAll(async () => {
+  await RAPIER.init();
+});
+
+beforeEach(() => {
+  world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+  physics = { world, rapier: RAPIER } as PhysicsQuery;
+});
+
+/** 고정 상자 콜라이더. center 는 상자 중심, half 는 반 크기 */
+function addBox(center: Vec3Like, half: Vec3Like, sensor = false): Collider {
+  const desc = RAPIER.ColliderDesc.cuboid(half.x, half.y, half.z)
+    .setTranslation(center.x, center.y, center.z)
+    .setSensor(sensor);
+  if (sensor) desc.setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DEFAULT | RAPIER.ActiveCollisionTypes.KINEMATIC_FIXED);
+  return world.createCollider(desc);
+}
+
+/** 캡슐 콜라이더를 단 키네마틱 캐릭터 (발 위치 기준) */
+function addCharacter(feet: Vec3Like, halfHeight = 0.5, radius = 0.3) {
+  const body = world.createRigidBody(RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(feet.x, feet.y, feet.z));
+  const collider = world.createCollider(
+    RAPIER.ColliderDesc.capsule(halfHeight, radius)
+      .setTranslation(0, halfHeight + radius, 0)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS),
+    body
+  );
+  return { body, collider };
+}
+
+/** 경비병이 플레이어를 한 틱 보는 것과 같은 입력을 만듭니다. */
+function observe(player: Vec3Like, sampleHeights: readonly number[], extra: Partial<DetectionInput> = {}): DetectionInput {
+  const sample = sampleVisibility(physics, outerVisionCone(VETERAN), GUARD, FORWARD, player, sampleHeights);
+  return {
+    ...sample,
+    isCrouching: sampleHeights === CROUCH_BODY_SAMPLES,
+    isJumping: false,
+    cover: [],
+    isMoving: false,
+    lightExposure: 1,
+    ...extra,
+  };
+}
+
+describe('cover + crouch', () => {
+  const CHARACTER = 'scenario-player';
+  let unregister: () => void;
+
+  beforeEach(() => {
+    unregister = registerCoverVolume('grass-1', (): CoverKind => 'grass');
+  });
+  // 볼륨을 해제하면 남은 진입 기록도 지워집니다.
+  afterEach(() => unregister());
+
+  // 센서 이벤트를 CoverVolumes 와 같은 방식으로 진입/이탈 기록에 옮깁니다.
+  function drainCoverEvents(queue: EventQueue, sensor: Collider) {
+    queue.drainCollisionEvents((a, b, started) => {
+      const other = a === sensor.handle ? b : b === sensor.handle ? a : null;
+      if (other === null) return;
+      if (started) enterCover(CHARACTER, other, 'grass-1');
+      else exitCover(CHARACTER, other, 'grass-1');
+    });
+  }
+
+  it('never detects a player crouched in tall grass, even in the red zone', () => {
+    const queue = new RAPIER.EventQueue(true);
+    const sensor = addBox({ x: 0, y: 0.75, z: 3 }, { x: 1, y: 0.75, z: 1 }, true);
+    const player = { x: 0, y: 0, z: 3 };
+    addCharacter(player);
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+
+    const cover = coverKindsOf(CHARACTER);
+    expect(cover).toEqual(['grass']);
+    // 센서는 시야를 가리지 않으므로 노출은 그대로이고, 웅크림 + 수풀 규칙으로만 숨습니다.
+    const crouched = observe(player, CROUCH_BODY_SAMPLES, { cover, isMoving: true });
+    expect(crouched.visibleFraction).toBe(1);
+    for (let tick = 0; tick < 60; tick++) expect(detectionFillRate(crouched, VETERAN)).toBe(0);
+
+    const standing = observe(player, STAND_BODY_SAMPLES, { cover });
+    const open = observe(player, STAND_BODY_SAMPLES);
+    expect(detectionFillRate(standing, VETERAN)).toBeGreaterThan(0);
+    expect(detectionFillRate(standing, VETERAN)).toBeLessThan(detectionFillRate(open, VETERAN));
+  });
+
+  it('drops cover when the player leaves the grass', () => {
+    const queue = new RAPIER.EventQueue(true);
+    const sensor = addBox({ x: 0, y: 0.75, z: 3 }, { x: 1, y: 0.75, z: 1 }, true);
+    const { body } = addCharacter({ x: 0, y: 0, z: 3 });
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+    expect(coverKindsOf(CHARACTER)).toEqual(['grass']);
+
+    body.setNextKinematicTranslation({ x: 0, y: 0, z: 8 });
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+    const cover = coverKindsOf(CHARACTER);
+    expect(cover).toEqual([]);
+    expect(detectionFillRate(observe({ x: 0, y: 0, z: 3 }, CROUCH_BODY_SAMPLES, { cover }), VETERAN)).toBeGreaterThan(0);
+  });
+
+  it('drops cover when the capsule collider is replaced inside the volume and then leaves', () => {
+    const queue = new RAPIER.EventQueue(true);
+    const sensor = addBox({ x: 0, y: 0.75, z: 3 }, { x: 1, y: 0.75, z: 1 }, true);
+    const { body, collider: standing } = addCharacter({ x: 0, y: 0, z: 3 });
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+    expect(coverKindsOf(CHARACTER)).toEqual(['grass']);
+
+    // 웅크리며 캡슐을 바꿉니다. @react-three/rapier 는 지운 콜라이더의 이탈 이벤트를 버리므로 직접 지웁니다.
+    world.removeCollider(standing, false);
+    releaseCoverCollider(CHARACTER, standing.handle);
+    world.createCollider(
+      RAPIER.ColliderDesc.capsule(0.25, 0.3).setTranslation(0, 0.55, 0).setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS),
+      body
+    );
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+    expect(coverKindsOf(CHARACTER)).toEqual(['grass']);
+
+    body.setTranslation({ x: 0, y: 0, z: 8 }, true);
+    world.step(queue);
+    drainCoverEvents(queue, sensor);
+    expect(coverKindsOf(CHARACTER)).toEqual([]);
+  });
+});
+
+describe('HEIGHT_THRESHOLD', () => {
+  // 경비병 앞 6m, 높이 3.5m 단 위의 플레이어: central 거리/각도 안이지만 높이 차가 veteran 기준(3m)을 넘습니다.
+  const ledge = { x: 0, y: 3.5, z: 6 };
+  const addLedge = () => addBox({ x: 0, y: 1.75, z: 6 }, { x: 0.5, y: 1.75, z: 0.5 });
+
+  it('keeps a player on a high ledge out of the red zone', () => {
+    addLedge();
+    world.step();
+    const input = observe(ledge, STAND_BODY_SAMPLES);
+    expect(input.distance).toBeLessThan(VETERAN.central.distance);
+    expect(input.heightDiff).toBeGreaterThan(VETERAN.heightThreshold);
+    expect(input.visibleFraction).toBeGreaterThan(0);
+
+    const rate = detectionFillRate(input, VETERAN);
+    expect(rate).toBeGreaterThan(0);
+    expect(rate).toBeLessThan(DETECTION_RATES.redZone * input.visibleFraction);
+  });
+
+  it('uses the red zone once the height difference is within the threshold', () => {
+    addLedge();
+    world.step();
+    const input = observe(ledge, STAND_BODY_SAMPLES);
+    const tolerant = { ...VETERAN, heightThreshold: input.heightDiff };
+    expect(detectionFillRate(input, tolerant)).toBeCloseTo(DETECTION_RATES.redZone * input.visibleFraction);
+  });
+
+  it('hides a crouched player in the yellow zone but not on level ground up close', () => {
+    world.step();
+    const near = observe({ x: 0, y: 0, z: 3 }, CROUCH_BODY_SAMPLES);
+    expect(detectionFillRate(near, VETERAN)).toBeCloseTo(DETECTION_RATES.redZone * DETECTION_RATES.crouchMultiplier);
+    const far = observe({ x: 0, y: 0, z: 9 }, CROUCH_BODY_SAMPLES);
+    expect(far.visibleFraction).toBe(1);
+    expect(detectionFillRate(far, VETERAN)).toBe(0);
+  });
+});
+
+describe('wall occlusion', () => {
+  const player = { x: 0, y: 0, z: 5 };
+
+  it('sees a player in the open', () => {
+    world.step();
+    const input = observe(player, STAND_BODY_SAMPLES);
+    expect(input.visibleFraction).toBe(1);
+    expect(detectionFillRate(input, VETERAN)).toBeGreaterThan(0);
+  });
+
+  it('blocks every body sample behind a full-height wall', () => {
+    addBox({ x: 0, y: 1.5, z: 2.5 }, { x: 2, y: 1.5, z: 0.1 });
+    world.step();
+    const input = observe(player, STAND_BODY_SAMPLES);
+    expect(input.visibleFraction).toBe(0);
+    expect(detectionFillRate(input, VETERAN)).toBe(0);
+  });
+
+  it('does not let the player capsule itself block the rays', () => {
+    addCharacter(player);
+    world.step();
+    expect(observe(player, STAND_BODY_SAMPLES).visibleFraction).toBe(1);
+  });
+
+  it('counts walls between a noise and a guard', () => {
+    addBox({ x: 0, y: 1.5, z: 2 }, { x: 2, y: 1.5, z: 0.1 });
+    addBox({ x: 0, y: 1.5, z: 4 }, { x: 2, y: 1.5, z: 0.1 });
+    world.step();
+    const from = { x: 0, y: 1, z: 0 };
+    expect(countWallsBetween(physics, from, { x: 0, y: 1, z: 1 }, 0xffffffff)).toBe(0);
+    expect(countWallsBetween(physics, from, { x: 0, y: 1, z: 3 }, 0xffffffff)).toBe(1);
+    expect(countWallsBetween(physics, from, { x: 0, y: 1, z: 6 }, 0xffffffff)).toBe(2);
+  });
+});
+
+describe('patrol waypoint cycling', () => {
+  const patrol: PatrolWaypoint[] = [
+    { position: [0, 0, 0], wait: 1 },
+    { position: [5, 0, 0], wait: 0 },
+    { position: [5, 0, 5], wait: 0.5 },
+  ];
+  const TICK = 0.25;
+
+  /** 도착해 있다고 보고 다음 웨이포인트로 넘어갈 때까지 틱을 돌려 걸린 틱 수를 셉니다. */
+  function ticksUntilAdvance(state: ReturnType<typeof createPatrolState>) {
+    let ticks = 1;
+    while (!stepPatrolWait(state, patrol, TICK)) ticks++;
+    return ticks;
+  }
+
+  it('waits at each waypoint and wraps from the last back to the first', () => {
+    const state = createPatrolState();
+    expect(ticksUntilAdvance(state)).toBe(4);
+    expect(state.index).toBe(1);
+    expect(ticksUntilAdvance(state)).toBe(1);
+    expect(state.index).toBe(2);
+    expect(ticksUntilAdvance(state)).toBe(2);
+    expect(state.index).toBe(0);
+    expect(state.waitRemaining).toBeNull();
+  });
+
+  it('restarts from the first waypoint when the route shrinks under it', () => {
+    const state = createPatrolState(2);
+    stepPatrolWait(state, patrol, TICK);
+    expect(state.waitRemaining).not.toBeNull();
+    clampPatrol(state, 2);
+    expect(state).toEqual({ index: 0, waitRemaining: null });
+    clampPatrol(state, 2);
+    expect(state.index).toBe(0);
+  });
+
+  it('stays put on an empty route', () => {
+    const state = createPatrolState();
+    expect(stepPatrolWait(state, [], TICK)).toBe(false);
+    expect(state.index).toBe(0);
+  });
+});
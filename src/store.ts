@@ -0,0 +1,255 @@
+import { Vector3 as ThreeVector3 } from 'three';
+import { create } from 'zustand';
+import { GuardMode, GuardTransition, Vec3Like } from './ai/guardBrain';
+import { NavMesh } from './nav/navMesh';
+import { NoiseEvent } from './ai/hearing';
+import { FALLBACK_LEVEL, LevelData, PLAYER_CHARACTER_ID } from './level/levelData';
+import { EditorSelection, EditorTool } from './editor/levelEdits';
+import { Controls, KeyBindings } from './input/controls';
+import { loadKeyBindings } from './input/bindings';
+import { AudioSettings, loadAudioSettings } from './audio/audioSettings';
+import { Inventory, ItemId } from './items/items';
+import { Projectile } from './items/gadgets';
+import { Callout } from './ai/communication';
+import { CoverKind } from './cover/cover';
+import { nextCameraHeading } from './camera/cameraRig';
+import { ALARM } from './ai/alarm';
+import { MissionState, MissionStats, MissionStatus, createMissionState, finalizeObjectives } from './mission/mission';
+import { ActiveCharacter } from './characters/roster';
+import { PERCEPTION_PROFILES, PerceptionProfile, PerceptionProfileId } from './ai/perceptionProfiles';
+
+// 🟢 전역 상태 관리 (Zustand)
+export interface GameState {
+  isAlerted: boolean;
+  setAlerted: (alerted: boolean) => void;
+  // 매 틱 바뀌므로 구독자에게 알리지 않고 같은 벡터에 복사합니다. 틱/프레임 로직에서 getState() 로 읽으세요.
+  playerPosition: ThreeVector3;
+  setPlayerPosition: (pos: Vec3Like) => void;
+  isCrouching: boolean;
+  setIsCrouching: (crouching: boolean) => void;
+  isJumping: boolean;
+  setIsJumping: (jumping: boolean) => void;
+  isMoving: boolean;
+  setIsMoving: (moving: boolean) => void;
+  coverKinds: CoverKind[];  // 조작 중인 캐릭터가 들어가 있는 엄폐 종류
+  setCoverKinds: (kinds: CoverKind[]) => void;
+  lightExposure: number;
+  setLightExposure: (exposure: number) => void;
+  perceptionProfiles: Record<PerceptionProfileId, PerceptionProfile>;
+  setPerceptionProfile: (id: PerceptionProfileId, profile: PerceptionProfile) => void;
+  guardStates: Record<string, GuardMode>;
+  lastGuardTransition: (GuardTransition & { guardId: string }) | null;
+  reportGuardTransition: (guardId: string, transition: GuardTransition) => void;
+  setGuardMode: (guardId: string, mode: GuardMode) => void;
+  detectionMeters: Record<string, number>;
+  setDetectionMeter: (guardId: string, value: number) => void;
+  navMesh: NavMesh | null;
+  setNavMesh: (navMesh: NavMesh | null) => void;
+  navDebugPaths: Record<string, Vec3Like[] | null>;
+  setNavDebugPath: (guardId: string, path: Vec3Like[] | null) => void;
+  levelData: LevelData;
+  setLevelData: (levelData: LevelData) => void;
+  updateLevelData: (recipe: (levelData: LevelData) => LevelData) => void;
+  editorTool: EditorTool;
+  setEditorTool: (tool: EditorTool) => void;
+  editorGuardId: string | null;
+  setEditorGuardId: (guardId: string | null) => void;
+  editorSelection: EditorSelection | null;
+  setEditorSelection: (selection: EditorSelection | null) => void;
+  noiseEvents: NoiseEvent[];
+  emitNoise: (noise: Omit<NoiseEvent, 'id'>) => void;
+  lastCheckpointId: string | null;
+  setLastCheckpointId: (checkpointId: string | null) => void;
+  keyBindings: KeyBindings;
+  setKeyBindings: (bindings: KeyBindings) => void;
+  rebindingAction: Controls | null;
+  setRebindingAction: (action: Controls | null) => void;
+  audioSettings: AudioSettings;
+  setAudioSettings: (settings: AudioSettings) => void;
+  isPaused: boolean;
+  setPaused: (paused: boolean) => void;
+  isInventoryOpen: boolean;
+  setInventoryOpen: (open: boolean) => void;
+  inventory: Inventory;
+  addItem: (item: ItemId, count?: number) => void;
+  removeItem: (item: ItemId) => void;
+  equippedGadget: ItemId | null;
+  equipGadget: (item: ItemId | null) => void;
+  openDoors: Record<string, boolean>;
+  setDoorOpen: (doorId: string, open: boolean) => void;
+  activeSwitches: Record<string, boolean>;
+  setSwitchActive: (switchId: string, active: boolean) => void;
+  disabledCameras: Record<string, boolean>;
+  setCameraDisabled: (cameraId: string, disabled: boolean) => void;
+  collectedPickups: Record<string, boolean>;
+  collectPickup: (pickupId: string) => void;
+  interactPrompt: string | null;
+  setInteractPrompt: (prompt: string | null) => void;
+  activeCharacter: ActiveCharacter;
+  setActiveCharacter: (active: ActiveCharacter) => void;
+  showMinimapCones: boolean;  // 끄면 미니맵에 경비병 시야를 그리지 않습니다 (어려움)
+  setShowMinimapCones: (show: boolean) => void;
+  cameraHeading: number;    // 시점 번호 0 ~ 3 (90도 단위). 이동 입력이 이 방향을 기준으로 바뀌므로 틱에서만 바꿉니다.
+  rotateCamera: (step: number) => void;
+  projectiles: Projectile[];
+  spawnProjectile: (projectile: Omit<Projectile, 'id'>) => void;
+  removeProjectile: (projectileId: number) => void;
+  downedGuards: Record<string, DownedGuard>;
+  setGuardDowned: (guardId: string, downed: DownedGuard | null) => void;
+  callouts: Callout[];
+  emitCallout: (callout: Omit<Callout, 'id'>) => void;
+  alarmRemaining: number;
+  raiseAlarm: () => void;
+  tickAlarm: (dt: number) => void;
+  mission: MissionState;
+  updateMission: (recipe: (mission: MissionState) => MissionState) => void;
+  endMission: (status: Exclude<MissionStatus, 'active'>, reason: string) => void;
+  recordMissionStat: (stat: 'timesSpotted' | 'takedowns') => void;
+}
+
+// 제압당해 쓰러진 경비병. 다른 경비병이 시야로 발견하면 discovered 가 됩니다.
+export interface DownedGuard {
+  position: Vec3Like;
+  discovered: boolean;
+}
+
+// 경비병이 아직 처리하지 않은 소음만 고를 수 있도록 증가하는 id 를 붙입니다.
+const MAX_NOISE_EVENTS = 16;
+let nextNoiseId = 1;
+let nextProjectileId = 1;
+const MAX_CALLOUTS = 16;
+let nextCalloutId = 1;
+
+// 추격 중이거나 경보를 울리러 가는 경비병이 있으면 전역 경보 상태입니다.
+const anyAlerted = (guardStates: Record<string, GuardMode>) =>
+  Object.values(guardStates).some((mode) => mode === 'alerted' || mode === 'alarm');
+
+export const useGameStore = create<GameState>((set, get) => ({
+  isAlerted: false,
+  setAlerted: (alerted) => set({ isAlerted: alerted }),
+  playerPosition: new ThreeVector3(0, 0, 0),
+  setPlayerPosition: (pos) => { get().playerPosition.set(pos.x, pos.y, pos.z); },
+  isCrouching: false,
+  setIsCrouching: (crouching) => set({ isCrouching: crouching }),
+  isJumping: false,
+  setIsJumping: (jumping) => set({ isJumping: jumping }),
+  coverKinds: [],
+  setCoverKinds: (kinds) => set({ coverKinds: kinds }),
+  isMoving: false,
+  setIsMoving: (moving) => set({ isMoving: moving }),
+  lightExposure: 1,
+  setLightExposure: (exposure) => set({ lightExposure: exposure }),
+  perceptionProfiles: PERCEPTION_PROFILES,
+  setPerceptionProfile: (id, profile) => set((state) => ({ perceptionProfiles: { ...state.perceptionProfiles, [id]: profile } })),
+  guardStates: {},
+  lastGuardTransition: null,
+  reportGuardTransition: (guardId, transition) => set((state) => {
+    const guardStates = { ...state.guardStates, [guardId]: transition.to };
+    return {
+      guardStates,
+      lastGuardTransition: { ...transition, guardId },
+      isAlerted: anyAlerted(guardStates),
+    };
+  }),
+  // 체크포인트 복원처럼 전환 이벤트 없이 상태만 덮어쓸 때 사용합니다.
+  setGuardMode: (guardId, mode) => set((state) => {
+    const guardStates = { ...state.guardStates, [guardId]: mode };
+    return { guardStates, isAlerted: anyAlerted(guardStates) };
+  }),
+  detectionMeters: {},
+  setDetectionMeter: (guardId, value) => set((state) => ({
+    detectionMeters: { ...state.detectionMeters, [guardId]: value },
+  })),
+  navMesh: null,
+  setNavMesh: (navMesh) => set({ navMesh }),
+  navDebugPaths: {},
+  setNavDebugPath: (guardId, path) => set((state) => ({
+    navDebugPaths: { ...state.navDebugPaths, [guardId]: path },
+  })),
+  levelData: FALLBACK_LEVEL,
+  setLevelData: (levelData) => set({ levelData }),
+  updateLevelData: (recipe) => set((state) => ({ levelData: recipe(state.levelData) })),
+  editorTool: 'select',
+  setEditorTool: (tool) => set({ editorTool: tool }),
+  editorGuardId: null,
+  setEditorGuardId: (guardId) => set({ editorGuardId: guardId }),
+  editorSelection: null,
+  setEditorSelection: (selection) => set({ editorSelection: selection }),
+  noiseEvents: [],
+  emitNoise: (noise) => set((state) => ({
+    noiseEvents: [...state.noiseEvents.slice(-(MAX_NOISE_EVENTS - 1)), { ...noise, id: nextNoiseId++ }],
+  })),
+  lastCheckpointId: null,
+  setLastCheckpointId: (checkpointId) => set({ lastCheckpointId: checkpointId }),
+  keyBindings: loadKeyBindings(),
+  setKeyBindings: (bindings) => set({ keyBindings: bindings }),
+  rebindingAction: null,
+  setRebindingAction: (action) => set({ rebindingAction: action }),
+  audioSettings: loadAudioSettings(),
+  setAudioSettings: (settings) => set({ audioSettings: settings }),
+  isPaused: false,
+  setPaused: (paused) => set({ isPaused: paused }),
+  isInventoryOpen: false,
+  setInventoryOpen: (open) => set({ isInventoryOpen: open }),
+  inventory: {},
+  addItem: (item, count = 1) => set((state) => ({
+    inventory: { ...state.inventory, [item]: (state.inventory[item] ?? 0) + count },
+  })),
+  // 마지막 하나를 쓰면 장착도 해제합니다.
+  removeItem: (item) => set((state) => {
+    const count = Math.max(0, (state.inventory[item] ?? 0) - 1);
+    return {
+      inventory: { ...state.inventory, [item]: count },
+      equippedGadget: count === 0 && state.equippedGadget === item ? null : state.equippedGadget,
+    };
+  }),
+  equippedGadget: null,
+  equipGadget: (item) => set({ equippedGadget: item }),
+  openDoors: {},
+  setDoorOpen: (doorId, open) => set((state) => ({ openDoors: { ...state.openDoors, [doorId]: open } })),
+  activeSwitches: {},
+  setSwitchActive: (switchId, active) => set((state) => ({ activeSwitches: { ...state.activeSwitches, [switchId]: active } })),
+  disabledCameras: {},
+  setCameraDisabled: (cameraId, disabled) => set((state) => ({ disabledCameras: { ...state.disabledCameras, [cameraId]: disabled } })),
+  collectedPickups: {},
+  collectPickup: (pickupId) => set((state) => ({ collectedPickups: { ...state.collectedPickups, [pickupId]: true } })),
+  interactPrompt: null,
+  setInteractPrompt: (prompt) => set({ interactPrompt: prompt }),
+  activeCharacter: { id: PLAYER_CHARACTER_ID, character: 'hero' },
+  setActiveCharacter: (active) => set({ activeCharacter: active }),
+  showMinimapCones: true,
+  setShowMinimapCones: (show) => set({ showMinimapCones: show }),
+  cameraHeading: 0,
+  rotateCamera: (step) => set((state) => ({ cameraHeading: nextCameraHeading(state.cameraHeading, step) })),
+  projectiles: [],
+  spawnProjectile: (projectile) => set((state) => ({
+    projectiles: [...state.projectiles, { ...projectile, id: nextProjectileId++ }],
+  })),
+  removeProjectile: (projectileId) => set((state) => ({
+    projectiles: state.projectiles.filter((p) => p.id !== projectileId),
+  })),
+  downedGuards: {},
+  setGuardDowned: (guardId, downed) => set((state) => {
+    const { [guardId]: _, ...rest } = state.downedGuards;
+    return { downedGuards: downed ? { ...rest, [guardId]: downed } : rest };
+  }),
+  callouts: [],
+  emitCallout: (callout) => set((state) => ({
+    callouts: [...state.callouts.slice(-(MAX_CALLOUTS - 1)), { ...callout, id: nextCalloutId++ }],
+  })),
+  alarmRemaining: 0,
+  raiseAlarm: () => set({ alarmRemaining: ALARM.duration }),
+  tickAlarm: (dt) => set((state) => ({ alarmRemaining: Math.max(0, state.alarmRemaining - dt) })),
+  mission: createMissionState(),
+  updateMission: (recipe) => set((state) => ({ mission: recipe(state.mission) })),
+  // 끝난 임무는 아직 진행 중이던 목표를 확정해 결과 화면에 보여줍니다.
+  endMission: (status, reason) => set((state) => {
+    if (state.mission.status !== 'active') return {};
+    const objectives = finalizeObjectives(state.levelData.objectives, state.mission.objectives, status);
+    return { mission: { ...state.mission, status, reason, objectives } };
+  }),
+  recordMissionStat: (stat) => set((state) => {
+    const stats: MissionStats = { ...state.mission.stats, [stat]: state.mission.stats[stat] + 1 };
+    return { mission: { ...state.mission, stats } };
+  }),
+}));
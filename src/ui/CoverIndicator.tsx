@@ -0,0 +1,23 @@
+import { useGameStore } from '../store';
+import { COVER_RULES, resolveConcealment } from '../cover/cover';
+
+// 🌿 엄폐 표시: 라이트 젬 옆에 지금 들어가 있는 엄폐와 숨은 정도를 보여줍니다.
+export const CoverIndicator = () => {
+  const coverKinds = useGameStore((state) => state.coverKinds);
+  const isCrouching = useGameStore((state) => state.isCrouching);
+  if (coverKinds.length === 0) return null;
+
+  const { hidden, rateMultiplier, dark } = resolveConcealment(coverKinds, isCrouching);
+  const label = coverKinds.map((kind) => COVER_RULES[kind].label).join(' + ');
+  // 웅크리면 숨을 수 있는데 서 있으면 알려줍니다.
+  const canHideByCrouching = !hidden && coverKinds.some((kind) => COVER_RULES[kind].hiddenWhenCrouched);
+  const status = hidden ? 'Hidden' : rateMultiplier < 1 || dark ? 'Concealed' : 'Exposed';
+
+  return (
+    <div className={`cover-indicator ${status.toLowerCase()}`}>
+      <strong>{status}</strong>
+      <span>{label}</span>
+      {canHideByCrouching && <em>Crouch to hide</em>}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Html } from '@react-three/drei';
+import { useGameStore } from '../store';
+import { alertIconOf, hudLayerRef } from './guardHud';
+
+// ❓❗ 경비병 머리 위 반응 아이콘 (월드 공간). 테두리 링이 감지 게이지만큼 찹니다.
+export const GuardAlertIcon = ({ id, height = 2.2 }: { id: string, height?: number }) => {
+  const mode = useGameStore((state) => state.guardStates[id] ?? 'patrol');
+  const meter = useGameStore((state) => state.detectionMeters[id] ?? 0);
+  const icon = alertIconOf(mode, meter);
+  if (!icon) return null;
+
+  const progress = icon === 'alerted' ? 1 : meter;
+  return (
+    <Html position={[0, height, 0]} center portal={hudLayerRef} zIndexRange={[5, 0]}>
+      <div className={`guard-alert ${icon}`} style={{ '--progress': progress } as React.CSSProperties}>
+        <span>{icon === 'alerted' ? '!' : '?'}</span>
+      </div>
+    </Html>
+  );
+};
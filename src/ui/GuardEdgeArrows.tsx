@@ -0,0 +1,65 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import { Vector3 } from 'three';
+import { useGameStore } from '../store';
+import { GUARD_COLORS, GuardPose, getTrackedGuard, hudLayerRef, isHunting } from './guardHud';
+
+// 화살표를 화면 가장자리에서 이만큼 (NDC 비율) 안쪽에 둡니다.
+const EDGE_INSET = 0.9;
+// 머리 높이를 기준으로 화면 안/밖을 판단합니다.
+const HEAD_HEIGHT = 1.6;
+
+// 전체 화면 Html 을 화면 중앙에 고정합니다 (fullscreen 은 왼쪽 위를 -크기/2 로 당깁니다).
+const centerOfScreen = (_el: unknown, _camera: unknown, size: { width: number, height: number }) => [size.width / 2, size.height / 2];
+
+// 🧭 화면 밖에서 플레이어를 찾고 있는 경비병 쪽을 가리키는 가장자리 화살표. Canvas 안에 둡니다.
+export const GuardEdgeArrows = () => {
+  const guardStates = useGameStore((state) => state.guardStates);
+  const hunting = useMemo(
+    () => Object.entries(guardStates).filter(([, mode]) => isHunting(mode)),
+    [guardStates]
+  );
+  const arrows = useRef(new Map<string, HTMLDivElement>());
+  const pose = useMemo<GuardPose>(() => ({ x: 0, y: 0, z: 0, yaw: 0 }), []);
+  const projected = useMemo(() => new Vector3(), []);
+
+  useFrame(({ camera, size }) => {
+    arrows.current.forEach((arrow, id) => {
+      const guard = getTrackedGuard(id);
+      if (!guard || !guard.readPose(pose)) {
+        arrow.style.display = 'none';
+        return;
+      }
+      projected.set(pose.x, pose.y + HEAD_HEIGHT, pose.z).project(camera);
+      const edge = Math.max(Math.abs(projected.x), Math.abs(projected.y));
+      if (edge <= 1) {
+        arrow.style.display = 'none';
+        return;
+      }
+      const scale = EDGE_INSET / edge;
+      const left = ((projected.x * scale + 1) / 2) * size.width;
+      const top = ((1 - projected.y * scale) / 2) * size.height;
+      const angle = Math.atan2(-projected.y, projected.x);
+      arrow.style.display = 'block';
+      arrow.style.transform = `translate(${left}px, ${top}px) translate(-50%, -50%) rotate(${angle}rad)`;
+    });
+  });
+
+  if (hunting.length === 0) return null;
+  return (
+    <Html fullscreen calculatePosition={centerOfScreen} portal={hudLayerRef} zIndexRange={[5, 0]} style={{ pointerEvents: 'none' }}>
+      {hunting.map(([id, mode]) => (
+        <div
+          key={id}
+          className="guard-edge-arrow"
+          style={{ color: GUARD_COLORS[mode], display: 'none' }}
+          ref={(el) => {
+            if (el) arrows.current.set(id, el);
+            else arrows.current.delete(id);
+          }}
+        />
+      ))}
+    </Html>
+  );
+};
@@ -0,0 +1,10 @@
+import { useGameStore } from '../store';
+
+// 🖐️ 가까운 상호작용 대상 안내
+export const InteractPrompt = () => {
+  const prompt = useGameStore((state) => state.interactPrompt);
+  const interactKeys = useGameStore((state) => state.keyBindings.interact);
+
+  if (!prompt) return null;
+  return <div className="interact-prompt">[{interactKeys[0]}] {prompt}</div>;
+};
@@ -0,0 +1,37 @@
+import { useGameStore } from '../store';
+import { ITEMS, ITEM_IDS } from '../items/items';
+
+// 🎒 인벤토리 (inventory 입력). 가젯을 눌러 장착하면 special 입력으로 사용합니다.
+export const InventoryPanel = () => {
+  const isOpen = useGameStore((state) => state.isInventoryOpen);
+  const inventory = useGameStore((state) => state.inventory);
+  const equippedGadget = useGameStore((state) => state.equippedGadget);
+  const equipGadget = useGameStore((state) => state.equipGadget);
+
+  if (!isOpen) return null;
+
+  const owned = ITEM_IDS.filter((id) => (inventory[id] ?? 0) > 0);
+
+  // 버튼이 포커스를 가져가면 Space 등 게임 키가 버튼을 누르게 되므로 막습니다.
+  return (
+    <div className="overlay-panel" onMouseDown={(e) => e.preventDefault()}>
+      <h2>Inventory</h2>
+      {owned.length === 0 && <div>Empty</div>}
+      {owned.map((id) => {
+        const { name, kind, description } = ITEMS[id];
+        const isEquipped = equippedGadget === id;
+        return (
+          <button
+            key={id}
+            className={isEquipped ? 'active' : undefined}
+            disabled={kind !== 'gadget'}
+            title={description}
+            onClick={() => equipGadget(isEquipped ? null : id)}
+          >
+            {name} ×{inventory[id]}{isEquipped ? ' (equipped)' : ''}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
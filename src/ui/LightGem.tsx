@@ -0,0 +1,19 @@
+import { useGameStore } from '../store';
+
+// 💎 라이트 젬: 조작 중인 캐릭터가 받는 빛. 어두울수록 경비병이 가까이 와야 알아챕니다.
+export const LightGem = () => {
+  const exposure = useGameStore((state) => state.lightExposure);
+  const lightness = 8 + 62 * exposure;
+
+  return (
+    <div className="light-gem" title={`Light exposure ${Math.round(exposure * 100)}%`}>
+      <div
+        className="gem"
+        style={{
+          background: `radial-gradient(circle at 40% 35%, hsl(48, 100%, ${lightness + 20}%), hsl(40, 90%, ${lightness}%))`,
+          boxShadow: `0 0 ${4 + 20 * exposure}px hsla(45, 100%, 60%, ${exposure})`,
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useGameStore } from '../store';
+import { navBoundaryEdges } from '../nav/navMesh';
+import { cameraViewYaw } from '../camera/cameraRig';
+import { outerVisionCone } from '../ai/perceptionProfiles';
+import { GUARD_COLORS, GuardPose, MINIMAP, forEachTrackedGuard } from './guardHud';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// 🗺️ 미니맵: 조작 중인 캐릭터를 가운데 두고 카메라 시점에 맞춰 돌린 위에서 본 지도.
+// 걸을 수 있는 영역 테두리, 순찰 경로, 경비병과 시야를 그립니다. 시야는 설정에서 끌 수 있습니다 (어려움).
+export const Minimap = () => {
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const navMesh = useGameStore((state) => state.navMesh);
+  const enemies = useGameStore((state) => state.levelData.enemies);
+  const outline = useMemo(() => (navMesh ? navBoundaryEdges(navMesh) : []), [navMesh]);
+
+  useEffect(() => {
+    const context = canvas.current?.getContext('2d');
+    if (!context) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const pixels = MINIMAP.size * pixelRatio;
+    context.canvas.width = pixels;
+    context.canvas.height = pixels;
+    const pose: GuardPose = { x: 0, y: 0, z: 0, yaw: 0 };
+
+    let frame = requestAnimationFrame(function draw() {
+      frame = requestAnimationFrame(draw);
+      const { playerPosition, cameraHeading, guardStates, showMinimapCones } = useGameStore.getState();
+      const scale = MINIMAP.pixelsPerMeter * pixelRatio;
+
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, pixels, pixels);
+      // 월드 (x, z) → 화면. 카메라 화면 위쪽 (-sin, -cos) 이 미니맵 위쪽이 되도록 돌립니다.
+      const yaw = cameraViewYaw(cameraHeading);
+      const a = Math.cos(yaw) * scale;
+      const b = Math.sin(yaw) * scale;
+      context.setTransform(a, b, -b, a,
+        pixels / 2 - (a * playerPosition.x - b * playerPosition.z),
+        pixels / 2 - (b * playerPosition.x + a * playerPosition.z));
+      const pixel = 1 / scale;
+
+      context.lineWidth = 1.5 * pixelRatio * pixel;
+      context.strokeStyle = MINIMAP.outline;
+      context.beginPath();
+      for (const [from, to] of outline) {
+        context.moveTo(from.x, from.z);
+        context.lineTo(to.x, to.z);
+      }
+      context.stroke();
+
+      context.strokeStyle = MINIMAP.route;
+      context.setLineDash([4 * pixelRatio * pixel, 3 * pixelRatio * pixel]);
+      for (const { patrol } of enemies) {
+        if (patrol.length < 2) continue;
+        context.beginPath();
+        patrol.forEach(({ position: [x, , z] }, i) => (i === 0 ? context.moveTo(x, z) : context.lineTo(x, z)));
+        if (patrol.length > 2) context.closePath();
+        context.stroke();
+      }
+      context.setLineDash([]);
+
+      forEachTrackedGuard((id, guard) => {
+        if (!guard.readPose(pose)) return;
+        const mode = guardStates[id] ?? 'patrol';
+        // 월드 각도 (x → z 방향으로 잰 값). forward = (sin yaw, cos yaw)
+        const facing = Math.PI / 2 - pose.yaw;
+        if (showMinimapCones && mode !== 'unconscious') {
+          const profile = guard.profile();
+          const outer = outerVisionCone(profile);
+          const cones: [number, number, string][] = [
+            [outer.fov, outer.viewDistance, MINIMAP.cone],
+            [profile.central.fov, profile.central.distance, MINIMAP.centralCone],
+          ];
+          for (const [fov, distance, color] of cones) {
+            context.fillStyle = color;
+            context.beginPath();
+            context.moveTo(pose.x, pose.z);
+            context.arc(pose.x, pose.z, distance, facing - toRadians(fov) / 2, facing + toRadians(fov) / 2);
+            context.closePath();
+            context.fill();
+          }
+        }
+        context.fillStyle = GUARD_COLORS[mode];
+        context.beginPath();
+        context.arc(pose.x, pose.z, 4 * pixelRatio * pixel, 0, Math.PI * 2);
+        context.fill();
+      });
+
+      context.fillStyle = MINIMAP.player;
+      context.beginPath();
+      context.arc(playerPosition.x, playerPosition.z, 4 * pixelRatio * pixel, 0, Math.PI * 2);
+      context.fill();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [outline, enemies]);
+
+  return <canvas ref={canvas} className="minimap" style={{ width: MINIMAP.size, height: MINIMAP.size }} />;
+};
@@ -0,0 +1,60 @@
+import { useGameStore } from '../store';
+import { restoreCheckpoint } from '../save/checkpoints';
+import { clearSnapshot } from '../save/saveGame';
+import { formatMissionTime, stealthRating } from '../mission/mission';
+
+// 🏁 임무 결과 화면. 끝나면 물리 월드와 틱이 멈춥니다.
+export const MissionResults = () => {
+  const mission = useGameStore((state) => state.mission);
+  const objectives = useGameStore((state) => state.levelData.objectives);
+  const hasCheckpoint = useGameStore((state) => state.lastCheckpointId !== null);
+  const updateMission = useGameStore((state) => state.updateMission);
+
+  if (mission.status === 'active') return null;
+
+  const { stats } = mission;
+  const rating = stealthRating(stats);
+
+  // 버튼이 포커스를 가져가면 Space 등 게임 키가 버튼을 누르게 되므로 막습니다.
+  return (
+    <>
+      <div className="overlay-dim" />
+      <div className="overlay-panel mission-results" onMouseDown={(e) => e.preventDefault()}>
+        <h2>{mission.status === 'won' ? 'Mission Complete' : 'Mission Failed'}</h2>
+        {mission.reason && <div>{mission.reason}</div>}
+        <table>
+          <tbody>
+            <tr><th>Time</th><td>{formatMissionTime(stats.elapsed)}</td></tr>
+            <tr><th>Times spotted</th><td>{stats.timesSpotted}</td></tr>
+            <tr><th>Takedowns</th><td>{stats.takedowns}</td></tr>
+            <tr><th>Alarm</th><td>{formatMissionTime(stats.alarmTime)}</td></tr>
+            <tr><th>Stealth rating</th><td title={rating.description}>{rating.label}</td></tr>
+          </tbody>
+        </table>
+        <ul>
+          {objectives.map(({ id, label }) => (
+            <li key={id} className={mission.objectives[id]}>{label}</li>
+          ))}
+        </ul>
+        {mission.status === 'lost' && (
+          <button
+            disabled={!hasCheckpoint}
+            onClick={() => {
+              if (restoreCheckpoint()) updateMission((current) => ({ ...current, status: 'active', reason: null }));
+            }}
+          >
+            Retry from Checkpoint
+          </button>
+        )}
+        <button
+          onClick={() => {
+            clearSnapshot();
+            window.location.reload();
+          }}
+        >
+          Restart Mission
+        </button>
+      </div>
+    </>
+  );
+};
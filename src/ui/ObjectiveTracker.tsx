@@ -0,0 +1,29 @@
+import { useGameStore } from '../store';
+import { ObjectiveState } from '../mission/mission';
+
+const MARKS: Record<ObjectiveState, string> = { active: '☐', done: '☑', failed: '☒' };
+
+// 🎯 임무 목표 / 경보 상태
+export const ObjectiveTracker = () => {
+  const objectives = useGameStore((state) => state.levelData.objectives);
+  const states = useGameStore((state) => state.mission.objectives);
+  const alarmSeconds = useGameStore((state) => Math.ceil(state.alarmRemaining));
+
+  if (objectives.length === 0) return null;
+  return (
+    <div className="objective-tracker">
+      <h3>Objectives</h3>
+      <ul>
+        {objectives.map(({ id, label, optional }) => {
+          const state = states[id] ?? 'active';
+          return (
+            <li key={id} className={state}>
+              {MARKS[state]} {label}{optional ? ' (optional)' : ''}
+            </li>
+          );
+        })}
+      </ul>
+      {alarmSeconds > 0 && <div className="alarm">🚨 Alarm {alarmSeconds}s</div>}
+    </div>
+  );
+};
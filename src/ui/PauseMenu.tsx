@@ -0,0 +1,39 @@
+import { useGameStore } from '../store';
+import { restoreCheckpoint } from '../save/checkpoints';
+
+// ⏸️ 일시정지 메뉴 (menu 입력). 열려 있는 동안 물리 월드와 틱이 멈춥니다.
+export const PauseMenu = () => {
+  const isPaused = useGameStore((state) => state.isPaused);
+  const hasCheckpoint = useGameStore((state) => state.lastCheckpointId !== null);
+  const keyBindings = useGameStore((state) => state.keyBindings);
+  const setPaused = useGameStore((state) => state.setPaused);
+  const isMissionOver = useGameStore((state) => state.mission.status !== 'active');
+  const showMinimapCones = useGameStore((state) => state.showMinimapCones);
+  const setShowMinimapCones = useGameStore((state) => state.setShowMinimapCones);
+
+  // 임무가 끝나면 결과 화면이 대신 뜹니다.
+  if (!isPaused || isMissionOver) return null;
+
+  // 버튼이 포커스를 가져가면 Space 등 게임 키가 버튼을 누르게 되므로 막습니다.
+  return (
+    <>
+      <div className="overlay-dim" />
+      <div className="overlay-panel" onMouseDown={(e) => e.preventDefault()}>
+        <h2>Paused</h2>
+        <button onClick={() => setPaused(false)}>Resume</button>
+        <button
+          disabled={!hasCheckpoint}
+          onClick={() => {
+            if (restoreCheckpoint()) setPaused(false);
+          }}
+        >
+          Load Checkpoint
+        </button>
+        <button onClick={() => setShowMinimapCones(!showMinimapCones)}>
+          Minimap Vision Cones: {showMinimapCones ? 'On' : 'Off (Hard)'}
+        </button>
+        <div className="hint">Press {keyBindings.menu.join(' / ')} to resume. Key bindings can be changed in the Controls panel.</div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { perceptionStats } from '../ai/perceptionScheduler';
+
+const SAMPLE_INTERVAL = 500;   // ms. 오버레이 자체가 측정에 끼어들지 않도록 가끔만 다시 그립니다.
+
+interface PerfSample {
+  fps: number;
+  jobs: number;
+  ran: number;
+  deferred: number;
+  rays: number;
+}
+
+// 📈 성능 오버레이: 렌더 프레임 수와 지각 스케줄러의 마지막 프레임 통계
+export const PerfOverlay = ({ guards }: { guards: number }) => {
+  const [sample, setSample] = useState<PerfSample | null>(null);
+
+  useEffect(() => {
+    let lastFrame = perceptionStats.frame;
+    let lastTime = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      const { frame, jobs, ran, deferred, rays } = perceptionStats;
+      setSample({ fps: ((frame - lastFrame) * 1000) / (now - lastTime), jobs, ran, deferred, rays });
+      lastFrame = frame;
+      lastTime = now;
+    }, SAMPLE_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!sample) return null;
+  return (
+    <div className="perf-overlay">
+      <div>{guards} guards · {sample.fps.toFixed(0)} fps</div>
+      <div>vision {sample.ran}/{sample.jobs} updated · {sample.deferred} deferred</div>
+      <div>{sample.rays} rays / frame</div>
+    </div>
+  );
+};
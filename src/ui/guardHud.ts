@@ -0,0 +1,75 @@
+// 🚨 경비병 반응 HUD 공통
+// 경비병 위치/방향은 강체와 그룹에만 있어서, 미니맵과 화면 가장자리 화살표가 읽을 수 있도록 여기에 등록해 둡니다.
+// 월드 공간 아이콘(drei Html)은 hudLayerRef 로 캔버스 위 HUD 레이어에 붙입니다.
+
+import { createRef } from 'react';
+import type { GuardMode } from '../ai/guardBrain';
+import type { PerceptionProfile } from '../ai/perceptionProfiles';
+
+export interface GuardPose {
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;              // 바라보는 방향 y 회전 (forward = (sin, cos))
+}
+
+export interface TrackedGuard {
+  readPose: (out: GuardPose) => boolean;   // 강체가 아직 없으면 false
+  profile: () => PerceptionProfile;         // 지금 표시 중인 시야 (경보 중이면 넓어진 값)
+}
+
+const trackedGuards = new Map<string, TrackedGuard>();
+
+export function registerTrackedGuard(id: string, guard: TrackedGuard) {
+  trackedGuards.set(id, guard);
+  return () => {
+    if (trackedGuards.get(id) === guard) trackedGuards.delete(id);
+  };
+}
+
+export const getTrackedGuard = (id: string) => trackedGuards.get(id);
+
+export function forEachTrackedGuard(visit: (id: string, guard: TrackedGuard) => void) {
+  trackedGuards.forEach((guard, id) => visit(id, guard));
+}
+
+// 캔버스와 같은 크기로 깔리는 HUD 레이어 (.ui-layer). Html 의 portal 로 씁니다.
+// Canvas 자식은 레이어가 붙은 뒤에 마운트되므로 current 가 비어 있을 일은 없습니다.
+export const hudLayerRef = createRef<HTMLDivElement>() as React.MutableRefObject<HTMLDivElement>;
+
+// 경비병 몸 색 / 미니맵 점 색
+export const GUARD_COLORS: Record<GuardMode, string> = {
+  patrol: '#556644',
+  return: '#556644',
+  suspicious: '#ffaa00',
+  investigate: '#ffaa00',
+  search: '#ffaa00',
+  alerted: '#ff0000',
+  alarm: '#ff0066',
+  unconscious: '#333333',
+};
+
+export type AlertIcon = 'suspicious' | 'alerted';
+
+/** 머리 위 아이콘: 추격/경보는 "!", 의심/조사/수색 또는 게이지가 차는 중이면 "?" */
+export function alertIconOf(mode: GuardMode, meter: number): AlertIcon | null {
+  if (mode === 'unconscious') return null;
+  if (mode === 'alerted' || mode === 'alarm') return 'alerted';
+  if (mode === 'suspicious' || mode === 'investigate' || mode === 'search' || meter > 0) return 'suspicious';
+  return null;
+}
+
+// 화면 밖에 있으면 가장자리 화살표로 알려줄 만큼 플레이어를 찾고 있는 상태
+export const isHunting = (mode: GuardMode) =>
+  mode === 'investigate' || mode === 'search' || mode === 'alerted' || mode === 'alarm';
+
+// 🗺️ 미니맵 설정
+export const MINIMAP = {
+  size: 180,                // px
+  pixelsPerMeter: 3,
+  outline: '#6b7d8c',
+  route: 'rgba(180, 200, 120, 0.5)',
+  cone: 'rgba(255, 230, 120, 0.18)',
+  centralCone: 'rgba(255, 200, 80, 0.3)',
+  player: '#44aaff',
+};